@@ -1,35 +1,77 @@
-import { App, MarkdownRenderChild } from 'obsidian';
+import {
+	App,
+	MarkdownPostProcessorContext,
+	MarkdownRenderChild,
+	MarkdownSectionInformation,
+	MarkdownView,
+	Notice,
+	TFile,
+} from 'obsidian';
 import * as React from 'react';
 import * as ReactDOM from 'react-dom/client';
-import { ChessStudyDataAdapter, ChessStudyFileData } from 'src/lib/storage';
+import { Diagram } from 'src/lib/diagram';
+import { OpeningExplorerIndex } from 'src/lib/explorer';
+import {
+	getInlineChessString,
+	parseUserConfig,
+	saveDiagram,
+	setInlinePgn,
+} from 'src/lib/obsidian';
+import { exportPgn } from 'src/lib/pgn';
+import {
+	ChessStudyDataAdapter,
+	ChessStudyFileData,
+	getStudyTitle,
+} from 'src/lib/storage';
+import { StudyRegistry } from 'src/lib/study-registry';
+import { DisplayedPosition } from 'src/lib/ui-state';
+import { ConfirmModal } from './obsidian/ConfirmModal';
 import { ChessStudyPluginSettings } from './obsidian/SettingsTab';
 import { ChessStudy } from './react/ChessStudy';
 
 export class ReactView extends MarkdownRenderChild {
 	root: ReactDOM.Root;
 	source: string;
+	ctx: MarkdownPostProcessorContext;
 	app: App;
 	settings: ChessStudyPluginSettings;
 	data: ChessStudyFileData;
 	dataAdapter: ChessStudyDataAdapter;
+	openingExplorer: OpeningExplorerIndex;
+	unsavedStudy: ChessStudyFileData | null = null;
+	studyRegistry: StudyRegistry;
+	// Last known position of the code block, the element is detached on unload
+	section: MarkdownSectionInformation | null = null;
 
 	constructor(
 		containerEL: HTMLElement,
 		source: string,
+		ctx: MarkdownPostProcessorContext,
 		app: App,
 		settings: ChessStudyPluginSettings,
 		data: ChessStudyFileData,
-		dataAdapter: ChessStudyDataAdapter
+		dataAdapter: ChessStudyDataAdapter,
+		openingExplorer: OpeningExplorerIndex,
+		studyRegistry: StudyRegistry
 	) {
 		super(containerEL);
 		this.source = source;
+		this.ctx = ctx;
 		this.app = app;
 		this.settings = settings;
 		this.data = data;
 		this.dataAdapter = dataAdapter;
+		this.openingExplorer = openingExplorer;
+		this.studyRegistry = studyRegistry;
 	}
 
 	onload() {
+		const sectionKey = this.getSectionKey();
+		const initialPosition =
+			(sectionKey && this.studyRegistry.inlinePositions.get(sectionKey)) || null;
+
+		if (sectionKey) this.studyRegistry.inlinePositions.delete(sectionKey);
+
 		this.root = ReactDOM.createRoot(this.containerEl);
 		this.root.render(
 			<React.StrictMode>
@@ -39,6 +81,16 @@ export class ReactView extends MarkdownRenderChild {
 					pluginSettings={this.settings}
 					chessStudyData={this.data}
 					dataAdapter={this.dataAdapter}
+					openingExplorer={this.openingExplorer}
+					onUnsavedChanges={(study) => {
+						this.unsavedStudy = study;
+					}}
+					saveStudy={(study, displayedPosition) =>
+						this.saveStudy(study, displayedPosition)
+					}
+					onInsertDiagram={(diagram) => this.insertDiagram(diagram)}
+					studyRegistry={this.studyRegistry}
+					initialPosition={initialPosition}
 				/>
 			</React.StrictMode>
 		);
@@ -46,5 +98,179 @@ export class ReactView extends MarkdownRenderChild {
 
 	onunload() {
 		this.root.unmount();
+
+		if (this.unsavedStudy) this.handleUnsavedChanges(this.unsavedStudy);
+	}
+
+	/**
+	 * Returns the position of the code block, or the last known one once
+	 * the element is detached.
+	 */
+	getSection() {
+		this.section = this.ctx.getSectionInfo(this.containerEl) ?? this.section;
+
+		return this.section;
+	}
+
+	getSectionKey() {
+		const section = this.getSection();
+
+		return section ? `${this.ctx.sourcePath}:${section.lineStart}` : null;
+	}
+
+	/**
+	 * Saves the study to the plugin storage, or for inline studies as PGN
+	 * into the code block.
+	 */
+	async saveStudy(
+		study: ChessStudyFileData,
+		displayedPosition?: DisplayedPosition
+	) {
+		const config = parseUserConfig(this.settings, this.source);
+
+		if (getInlineChessString(config) === null) {
+			await this.dataAdapter.saveFile(study, config.chessStudyId);
+			return;
+		}
+
+		// The code block is rendered anew with the written source, the new
+		// study picks up the displayed position
+		this.unsavedStudy = null;
+
+		const sectionKey = this.getSectionKey();
+		const { inlinePositions } = this.studyRegistry;
+
+		if (sectionKey && displayedPosition) {
+			inlinePositions.set(sectionKey, displayedPosition);
+		}
+
+		try {
+			await this.writeSource(setInlinePgn(this.source, exportPgn(study)));
+		} catch (e) {
+			if (sectionKey) inlinePositions.delete(sectionKey);
+			throw e;
+		}
+	}
+
+	/**
+	 * Replaces the source of the code block, through the editor if the note
+	 * is open so the change can be undone there.
+	 */
+	async writeSource(source: string) {
+		const { sourcePath } = this.ctx;
+		const section = this.getSection();
+
+		if (!section) throw Error('The code block of the study could not be found.');
+
+		const { lineStart, lineEnd } = section;
+
+		const isCodeBlockStart = (line: string | undefined) =>
+			!!line?.trim().startsWith('```chessStudy');
+
+		const view = this.app.workspace
+			.getLeavesOfType('markdown')
+			.map((leaf) => leaf.view)
+			.find(
+				(view): view is MarkdownView =>
+					view instanceof MarkdownView && view.file?.path === sourcePath
+			);
+
+		if (view) {
+			if (!isCodeBlockStart(view.editor.getLine(lineStart))) {
+				throw Error('The code block of the study has moved.');
+			}
+
+			view.editor.replaceRange(
+				`${source}\n`,
+				{ line: lineStart + 1, ch: 0 },
+				{ line: lineEnd, ch: 0 }
+			);
+			return;
+		}
+
+		const file = this.app.vault.getAbstractFileByPath(sourcePath);
+
+		if (!(file instanceof TFile)) throw Error(`${sourcePath} does not exist.`);
+
+		await this.app.vault.process(file, (content) => {
+			const lines = content.split('\n');
+
+			if (!isCodeBlockStart(lines[lineStart])) {
+				throw Error('The code block of the study has moved.');
+			}
+
+			lines.splice(lineStart + 1, lineEnd - lineStart - 1, source);
+
+			return lines.join('\n');
+		});
+	}
+
+	/**
+	 * Saves the diagram and embeds it below the code block of the study.
+	 */
+	async insertDiagram(diagram: Diagram) {
+		const { sourcePath } = this.ctx;
+		const file = this.app.vault.getAbstractFileByPath(sourcePath);
+		const section = this.getSection();
+
+		try {
+			const embed = await saveDiagram(
+				this.app,
+				parseUserConfig(this.settings, this.source),
+				diagram,
+				sourcePath
+			);
+
+			// Embedded notes do not know where the code block is
+			if (!(file instanceof TFile) || !section) {
+				await navigator.clipboard.writeText(embed);
+				return new Notice('Saved the diagram, its embed was copied to clipboard!');
+			}
+
+			await this.app.vault.process(file, (content) => {
+				const lines = content.split('\n');
+
+				lines.splice(section.lineEnd + 1, 0, '', embed);
+
+				return lines.join('\n');
+			});
+		} catch (e) {
+			console.log(e);
+			new Notice(
+				`Something went wrong during saving the diagram: ${e.message}`,
+				0
+			);
+		}
+	}
+
+	handleUnsavedChanges(study: ChessStudyFileData) {
+		const { chessStudyId, autosave, confirmUnsavedChanges } = parseUserConfig(
+			this.settings,
+			this.source
+		);
+
+		const save = async () => {
+			try {
+				await this.saveStudy(study);
+			} catch (e) {
+				new Notice(`Something went wrong during saving: ${e.message}`, 0);
+			}
+		};
+
+		// Flush a pending autosave
+		if (autosave) return save();
+
+		if (!confirmUnsavedChanges) return;
+
+		new ConfirmModal(
+			this.app,
+			'Unsaved changes',
+			`The study ${
+				getStudyTitle(study) || chessStudyId
+			} was closed with unsaved changes. Do you want to save them?`,
+			'Save',
+			save,
+			{ cancelText: 'Discard', isDestructive: false }
+		).open();
 	}
 }
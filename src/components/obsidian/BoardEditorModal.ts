@@ -0,0 +1,277 @@
+import { Square } from 'chess.js';
+import { Chessground } from 'chessground';
+import { Api } from 'chessground/api';
+import { Color, MouchEvent, Role } from 'chessground/types';
+import {
+	App,
+	ButtonComponent,
+	DropdownComponent,
+	Modal,
+	Setting,
+	TextComponent,
+} from 'obsidian';
+import {
+	CASTLING_RIGHTS,
+	CastlingRight,
+	EMPTY_PLACEMENT,
+	EditorPosition,
+	getEnPassantSquares,
+	parsePosition,
+	positionToFen,
+	validatePosition,
+} from 'src/lib/board-editor';
+import { ROOT_FEN } from 'src/main';
+import { ChessStudyPluginSettings } from './SettingsTab';
+
+const PALETTE_ROLES: Role[] = [
+	'king',
+	'queen',
+	'rook',
+	'bishop',
+	'knight',
+	'pawn',
+];
+
+const CASTLING_LABELS: Record<CastlingRight, string> = {
+	K: 'White O-O',
+	Q: 'White O-O-O',
+	k: 'Black O-O',
+	q: 'Black O-O-O',
+};
+
+export class BoardEditorModal extends Modal {
+	settings: ChessStudyPluginSettings;
+	position: EditorPosition;
+	onSubmit: (fen: string) => void;
+	board: Api | null = null;
+	orientation: Color;
+	fenInput: TextComponent;
+	enPassantDropdown: DropdownComponent;
+	castlingInputs = new Map<CastlingRight, HTMLInputElement>();
+	turnDropdown: DropdownComponent;
+	errorEl: HTMLElement;
+	submitButton: ButtonComponent;
+
+	constructor(
+		app: App,
+		settings: ChessStudyPluginSettings,
+		fen: string,
+		onSubmit: (fen: string) => void
+	) {
+		super(app);
+		this.settings = settings;
+		this.position = parsePosition(fen);
+		this.orientation = settings.boardOrientation;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+
+		this.modalEl.addClass('chess-study-board-editor');
+
+		contentEl.createEl('h1', { text: 'Board editor' });
+
+		const topPalette = contentEl.createDiv();
+
+		this.board = Chessground(
+			contentEl.createDiv({
+				cls: `${this.settings.boardColor}-board board-editor-board`,
+			}),
+			{
+				fen: this.position.placement,
+				orientation: this.orientation,
+				animation: { enabled: false },
+				movable: { free: true, color: 'both' },
+				premovable: { enabled: false },
+				draggable: { deleteOnDropOff: true },
+				events: {
+					change: () => {
+						if (!this.board) return;
+
+						this.position.placement = this.board.getFen();
+						this.update();
+					},
+				},
+			}
+		);
+
+		const bottomPalette = contentEl.createDiv();
+
+		this.renderPalettes(topPalette, bottomPalette);
+
+		new Setting(contentEl).setName('Side to move').addDropdown((dropdown) => {
+			this.turnDropdown = dropdown;
+
+			dropdown
+				.addOptions({ w: 'White', b: 'Black' })
+				.setValue(this.position.turn)
+				.onChange((turn: 'w' | 'b') => {
+					this.position.turn = turn;
+					this.update();
+				});
+		});
+
+		const castlingSetting = new Setting(contentEl).setName('Castling rights');
+
+		CASTLING_RIGHTS.forEach((right) => {
+			const label = castlingSetting.controlEl.createEl('label', {
+				cls: 'board-editor-castling',
+			});
+
+			const input = label.createEl('input', { type: 'checkbox' });
+			input.addEventListener('change', () => {
+				this.position.castling = CASTLING_RIGHTS.filter(
+					(castlingRight) => this.castlingInputs.get(castlingRight)?.checked
+				);
+				this.update();
+			});
+
+			label.appendText(CASTLING_LABELS[right]);
+
+			this.castlingInputs.set(right, input);
+		});
+
+		new Setting(contentEl)
+			.setName('En passant')
+			.setDesc('The square a pawn skipped with a double step on the last move')
+			.addDropdown((dropdown) => {
+				this.enPassantDropdown = dropdown;
+
+				dropdown.onChange((square) => {
+					this.position.enPassant = square === '-' ? null : (square as Square);
+					this.update();
+				});
+			});
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn.setButtonText('Start position').onClick(() => this.setFen(ROOT_FEN))
+			)
+			.addButton((btn) =>
+				btn.setButtonText('Clear board').onClick(() => {
+					this.position.placement = EMPTY_PLACEMENT;
+					this.position.castling = [];
+					this.position.enPassant = null;
+					this.board?.set({ fen: EMPTY_PLACEMENT });
+					this.update();
+				})
+			)
+			.addButton((btn) =>
+				btn.setButtonText('Flip board').onClick(() => {
+					this.orientation = this.orientation === 'white' ? 'black' : 'white';
+					this.board?.set({ orientation: this.orientation });
+					this.renderPalettes(topPalette, bottomPalette);
+				})
+			);
+
+		new Setting(contentEl).setName('FEN').addText((text) => {
+			this.fenInput = text;
+
+			text.inputEl.setCssStyles({ width: '100%' });
+			text.onChange((fen) => {
+				if (fen.trim().split(/\s+/).length >= 4) this.setFen(fen, false);
+			});
+		});
+
+		this.errorEl = contentEl.createEl('p', { cls: 'board-editor-error' });
+
+		new Setting(contentEl).addButton((btn) => {
+			this.submitButton = btn;
+
+			btn
+				.setButtonText('Use position')
+				.setCta()
+				.onClick(() => {
+					if (validatePosition(this.position)) return;
+
+					this.close();
+					this.onSubmit(positionToFen(this.position));
+				});
+		});
+
+		this.update();
+	}
+
+	/**
+	 * Renders the spare pieces of the player at the bottom below the board.
+	 */
+	renderPalettes(topPalette: HTMLElement, bottomPalette: HTMLElement) {
+		const bottomColor = this.orientation;
+		const topColor = bottomColor === 'white' ? 'black' : 'white';
+
+		this.renderPalette(topPalette, topColor);
+		this.renderPalette(bottomPalette, bottomColor);
+	}
+
+	renderPalette(paletteEl: HTMLElement, color: Color) {
+		paletteEl.empty();
+		paletteEl.className = 'cg-wrap board-editor-palette';
+
+		PALETTE_ROLES.forEach((role) => {
+			const pieceEl = paletteEl.appendChild(document.createElement('piece'));
+
+			pieceEl.className = `${role} ${color}`;
+
+			const onDragStart = (e: MouchEvent) => {
+				e.preventDefault();
+				this.board?.dragNewPiece({ role, color }, e, true);
+			};
+
+			pieceEl.addEventListener('mousedown', onDragStart);
+			pieceEl.addEventListener('touchstart', onDragStart, { passive: false });
+		});
+	}
+
+	setFen(fen: string, updateInput = true) {
+		this.position = parsePosition(fen);
+		this.board?.set({ fen: this.position.placement });
+		this.update(updateInput);
+	}
+
+	/**
+	 * Syncs the controls with the position and validates it.
+	 */
+	update(updateInput = true) {
+		const { position } = this;
+		const enPassantSquares = getEnPassantSquares(
+			position.placement,
+			position.turn
+		);
+
+		if (position.enPassant && !enPassantSquares.includes(position.enPassant)) {
+			position.enPassant = null;
+		}
+
+		this.turnDropdown.setValue(position.turn);
+
+		this.castlingInputs.forEach((input, right) => {
+			input.checked = position.castling.includes(right);
+		});
+
+		this.enPassantDropdown.selectEl.empty();
+		this.enPassantDropdown
+			.addOption('-', 'None')
+			.addOptions(
+				Object.fromEntries(enPassantSquares.map((square) => [square, square]))
+			)
+			.setValue(position.enPassant ?? '-');
+
+		const fen = positionToFen(position);
+
+		if (updateInput) this.fenInput.setValue(fen);
+
+		const error = validatePosition(position);
+
+		this.errorEl.setText(error ?? '');
+		this.submitButton.setDisabled(!!error);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+
+		this.board?.destroy();
+		this.board = null;
+		contentEl.empty();
+	}
+}
@@ -1,43 +1,222 @@
-import { App, Modal, Setting } from 'obsidian';
-import { ChessString } from 'src/main';
+import { validateFen } from 'chess.js';
+import { Chessground } from 'chessground';
+import { Api } from 'chessground/api';
+import {
+	App,
+	ButtonComponent,
+	Modal,
+	Setting,
+	TextAreaComponent,
+	debounce,
+} from 'obsidian';
+import {
+	ParsedPgn,
+	PgnParseError,
+	detectChessStringFormat,
+	getChapterWarnings,
+	parseChessString,
+} from 'src/lib/pgn';
+import { ChessString, ROOT_FEN } from 'src/main';
+import { BoardEditorModal } from './BoardEditorModal';
+import { ChessStudyPluginSettings } from './SettingsTab';
 
 export class ChessStringModal extends Modal {
-	chessString: ChessString;
-	onSubmit: (pgn: string) => void;
+	chessString: ChessString = '';
+	settings: ChessStudyPluginSettings;
+	onSubmit: (chapters: ParsedPgn[]) => void;
+	textArea: TextAreaComponent;
+	stopAtIllegalMove = false;
+	chapters: ParsedPgn[] | null = null;
+	board: Api | null = null;
+	statusEl: HTMLElement;
+	errorEl: HTMLElement;
+	submitButton: ButtonComponent;
+	// Large databases are parsed once the typing pauses, not on every keystroke
+	validateLater = debounce(() => this.validate(), 300, true);
 
-	constructor(app: App, onSubmit: (pgn: string) => void) {
+	constructor(
+		app: App,
+		settings: ChessStudyPluginSettings,
+		onSubmit: (chapters: ParsedPgn[]) => void
+	) {
 		super(app);
+		this.settings = settings;
 		this.onSubmit = onSubmit;
 	}
 
 	onOpen() {
 		const { contentEl } = this;
 
+		this.modalEl.addClass('chess-study-string-modal');
+
 		contentEl.createEl('h1', {
 			text: 'Paste the full PGN/FEN (leave empty for a new game):',
 		});
 
-		new Setting(contentEl).setName('PGN/FEN').addTextArea((text) =>
+		new Setting(contentEl).setName('PGN/FEN').addTextArea((text) => {
+			this.textArea = text;
+
 			text
 				.onChange((value) => {
 					this.chessString = value;
+					this.validateLater();
+				})
+				.inputEl.setCssStyles({ width: '100%', height: '250px' });
+		});
+
+		new Setting(contentEl)
+			.setName('Import up to the first illegal move')
+			.setDesc(
+				'Instead of rejecting the PGN, every line is cut off at its first illegal move.'
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(this.stopAtIllegalMove).onChange((stopAtIllegalMove) => {
+					this.stopAtIllegalMove = stopAtIllegalMove;
+					this.validate();
 				})
-				.inputEl.setCssStyles({ width: '100%', height: '250px' })
+			);
+
+		const preview = contentEl.createDiv({ cls: 'chess-string-preview' });
+
+		this.board = Chessground(
+			preview.createDiv({
+				cls: `${this.settings.boardColor}-board chess-string-preview-board`,
+			}),
+			{
+				fen: ROOT_FEN,
+				orientation: this.settings.boardOrientation,
+				viewOnly: true,
+				coordinates: false,
+				drawable: { enabled: false, visible: false },
+			}
 		);
 
-		new Setting(contentEl).addButton((btn) =>
-			btn
-				.setButtonText('Submit')
-				.setCta()
-				.onClick(() => {
-					this.close();
-					this.onSubmit(this.chessString);
+		const details = preview.createDiv({ cls: 'chess-string-preview-details' });
+
+		this.statusEl = details.createDiv({ cls: 'chess-string-status' });
+		this.errorEl = details.createEl('pre', { cls: 'chess-string-error' });
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn.setButtonText('Set up position').onClick(() => {
+					const chessString = this.chessString.trim();
+					const fen = validateFen(chessString).ok ? chessString : ROOT_FEN;
+
+					new BoardEditorModal(this.app, this.settings, fen, (fen) => {
+						this.chessString = fen;
+						this.textArea.setValue(fen);
+						this.validate();
+					}).open();
 				})
+			)
+			.addButton((btn) => {
+				this.submitButton = btn;
+
+				btn
+					.setButtonText('Submit')
+					.setCta()
+					.onClick(() => {
+						// The input may have changed since the last validation
+						this.validateLater.cancel();
+						this.validate();
+
+						if (!this.chapters) return;
+
+						this.close();
+						this.onSubmit(this.chapters);
+					});
+			});
+
+		this.validate();
+	}
+
+	/**
+	 * Parses the input as it is typed, Submit is only enabled for a valid input.
+	 */
+	validate() {
+		const format = detectChessStringFormat(this.chessString);
+
+		this.errorEl.empty();
+		this.errorEl.hide();
+
+		try {
+			this.chapters = parseChessString(this.chessString, {
+				stopAtIllegalMove: this.stopAtIllegalMove,
+			});
+		} catch (e) {
+			this.chapters = null;
+			this.showError(e);
+		}
+
+		this.submitButton.setDisabled(!this.chapters);
+
+		if (!this.chapters) return;
+
+		// The preview shows the first chapter
+		const [{ moves, rootFEN }] = this.chapters;
+		const lastMove = moves[moves.length - 1];
+
+		this.board?.set({
+			fen: lastMove?.after ?? rootFEN,
+			lastMove: lastMove ? [lastMove.from, lastMove.to] : undefined,
+		});
+
+		this.statusEl.removeClass('is-invalid');
+
+		if (!this.chessString.trim().length) {
+			this.statusEl.setText('Empty, a new game is started.');
+		} else if (format === 'fen') {
+			this.statusEl.setText('Valid FEN');
+		} else if (this.chapters.length > 1) {
+			this.statusEl.setText(
+				`Valid PGN with ${this.chapters.length} games, each becomes a chapter`
+			);
+		} else {
+			this.statusEl.setText(
+				`Valid PGN with ${moves.length} ${
+					moves.length === 1 ? 'move' : 'moves'
+				} in the main line`
+			);
+		}
+
+		const warnings = getChapterWarnings(this.chapters);
+
+		if (warnings.length) {
+			const warningList = this.statusEl.createEl('ul');
+
+			warnings.forEach((warning) => warningList.createEl('li', { text: warning }));
+		}
+	}
+
+	showError(e: unknown) {
+		this.statusEl.addClass('is-invalid');
+
+		if (!(e instanceof PgnParseError)) {
+			this.statusEl.setText(
+				e instanceof Error ? e.message : 'The input could not be parsed.'
+			);
+			return;
+		}
+
+		this.statusEl.setText(`${e.message}: ${e.token}`);
+
+		// Points at the token within its line
+		const line = this.chessString.split('\n')[e.line - 1] ?? '';
+
+		this.errorEl.setText(
+			`${line}\n${' '.repeat(e.column - 1)}${'^'.repeat(
+				Math.max(1, e.token.length)
+			)}`
 		);
+		this.errorEl.show();
 	}
 
 	onClose() {
 		const { contentEl } = this;
+
+		this.validateLater.cancel();
+		this.board?.destroy();
+		this.board = null;
 		contentEl.empty();
 	}
 }
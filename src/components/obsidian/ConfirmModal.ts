@@ -0,0 +1,56 @@
+import { App, Modal, Setting } from 'obsidian';
+
+export class ConfirmModal extends Modal {
+	title: string;
+	message: string;
+	confirmText: string;
+	onConfirm: () => void;
+	options: { cancelText: string; isDestructive: boolean };
+
+	constructor(
+		app: App,
+		title: string,
+		message: string,
+		confirmText: string,
+		onConfirm: () => void,
+		options = { cancelText: 'Cancel', isDestructive: true }
+	) {
+		super(app);
+		this.title = title;
+		this.message = message;
+		this.confirmText = confirmText;
+		this.onConfirm = onConfirm;
+		this.options = options;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+
+		contentEl.createEl('h1', { text: this.title });
+		contentEl.createEl('p', { text: this.message });
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn.setButtonText(this.options.cancelText).onClick(() => {
+					this.close();
+				})
+			)
+			.addButton((btn) => {
+				btn.setButtonText(this.confirmText).onClick(() => {
+					this.close();
+					this.onConfirm();
+				});
+
+				if (this.options.isDestructive) {
+					btn.setWarning();
+				} else {
+					btn.setCta();
+				}
+			});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
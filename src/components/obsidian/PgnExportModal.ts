@@ -0,0 +1,74 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { getAvailableFilePath } from 'src/lib/obsidian';
+
+export class PgnExportModal extends Modal {
+	pgn: string;
+	fileName: string;
+
+	constructor(app: App, pgn: string, fileName: string) {
+		super(app);
+		this.pgn = pgn;
+		this.fileName = fileName;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+
+		contentEl.createEl('h1', {
+			text: 'Export PGN',
+		});
+
+		new Setting(contentEl).setName('PGN').addTextArea((text) => {
+			text.setValue(this.pgn);
+			text.inputEl.readOnly = true;
+			text.inputEl.setCssStyles({ width: '100%', height: '250px' });
+		});
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn.setButtonText('Copy to clipboard').onClick(async () => {
+					try {
+						await navigator.clipboard.writeText(this.pgn);
+						new Notice('Copied to clipboard!');
+					} catch (e) {
+						new Notice(`Could not copy to clipboard: ${e.message}`, 0);
+					}
+				})
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText('Save as .pgn file')
+					.setCta()
+					.onClick(async () => {
+						try {
+							const path = await this.saveToVault();
+							new Notice(`Saved PGN to ${path}`);
+							this.close();
+						} catch (e) {
+							new Notice(`Something went wrong during saving: ${e.message}`, 0);
+						}
+					})
+			);
+	}
+
+	async saveToVault() {
+		const activeFile = this.app.workspace.getActiveFile();
+		const folder = this.app.fileManager.getNewFileParent(activeFile?.path ?? '');
+
+		const path = getAvailableFilePath(
+			this.app,
+			folder.path,
+			this.fileName || 'chess-study',
+			'pgn'
+		);
+
+		await this.app.vault.create(path, this.pgn);
+
+		return path;
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,25 @@
+import { App, FuzzySuggestModal, TFile } from 'obsidian';
+
+export class PgnFileSuggestModal extends FuzzySuggestModal<TFile> {
+	onChoose: (file: TFile) => void;
+
+	constructor(app: App, onChoose: (file: TFile) => void) {
+		super(app);
+		this.onChoose = onChoose;
+		this.setPlaceholder('Choose a PGN file to import');
+	}
+
+	getItems(): TFile[] {
+		return this.app.vault
+			.getFiles()
+			.filter((file) => file.extension.toLowerCase() === 'pgn');
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile) {
+		this.onChoose(file);
+	}
+}
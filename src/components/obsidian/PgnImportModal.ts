@@ -0,0 +1,289 @@
+import { App, ButtonComponent, Modal, Notice, Setting, TFile } from 'obsidian';
+import {
+	getAvailableFilePath,
+	getChessStudyCodeBlock,
+	renderNoteTemplate,
+} from 'src/lib/obsidian';
+import { PgnGame, parsePgn, toChapter } from 'src/lib/pgn';
+import {
+	CURRENT_STORAGE_VERSION,
+	ChessStudyChapter,
+	ChessStudyHeader,
+	setStudyTitle,
+} from 'src/lib/storage';
+import ChessStudyPlugin from 'src/main';
+
+type NoteMode = 'single' | 'per-game' | 'chapters';
+
+// Unknown values like ? or ????.??.?? are not worth showing
+const getTag = (headers: Record<string, string>, tag: string) => {
+	const value = headers[tag]?.trim();
+
+	return value && !/^[?.\s-]*$/.test(value) ? value : null;
+};
+
+const getGameName = (header: ChessStudyHeader) => {
+	if (header.title) return header.title;
+
+	const players = `${header.white ?? '?'} - ${header.black ?? '?'}`;
+
+	return header.date ? `${players} ${header.date}` : players;
+};
+
+export class PgnImportModal extends Modal {
+	plugin: ChessStudyPlugin;
+	file: TFile;
+	games: PgnGame[];
+	selected: Set<number>;
+	noteMode: NoteMode = 'single';
+	checkboxes: HTMLInputElement[] = [];
+	importButton: ButtonComponent;
+
+	constructor(
+		app: App,
+		plugin: ChessStudyPlugin,
+		file: TFile,
+		games: PgnGame[]
+	) {
+		super(app);
+		this.plugin = plugin;
+		this.file = file;
+		this.games = games;
+		this.selected = new Set(games.keys());
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+
+		this.modalEl.addClass('chess-study-pgn-import');
+
+		contentEl.createEl('h1', { text: `Import ${this.file.name}` });
+
+		new Setting(contentEl)
+			.setName('Notes')
+			.setDesc(
+				'Games imported as studies of their own are written with the import note template from the settings'
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						single: 'One note with all games',
+						'per-game': 'One note per game',
+						chapters: 'One study with a chapter per game',
+					})
+					.setValue(this.noteMode)
+					.onChange((noteMode: NoteMode) => {
+						this.noteMode = noteMode;
+					})
+			);
+
+		new Setting(contentEl)
+			.setName(
+				`${this.games.length} ${this.games.length === 1 ? 'game' : 'games'}`
+			)
+			.addButton((btn) =>
+				btn.setButtonText('Select all').onClick(() => this.selectAll(true))
+			)
+			.addButton((btn) =>
+				btn.setButtonText('Select none').onClick(() => this.selectAll(false))
+			);
+
+		const listEl = contentEl.createDiv({ cls: 'pgn-import-games' });
+
+		this.games.forEach(({ headers }, i) => {
+			const label = listEl.createEl('label', { cls: 'pgn-import-game' });
+
+			const checkbox = label.createEl('input', { type: 'checkbox' });
+			checkbox.checked = this.selected.has(i);
+			checkbox.addEventListener('change', () => {
+				if (checkbox.checked) {
+					this.selected.add(i);
+				} else {
+					this.selected.delete(i);
+				}
+				this.update();
+			});
+
+			this.checkboxes.push(checkbox);
+
+			label.createSpan({
+				cls: 'pgn-import-game-players',
+				text: `${getTag(headers, 'White') ?? '?'} – ${
+					getTag(headers, 'Black') ?? '?'
+				}`,
+			});
+
+			label.createSpan({
+				cls: 'pgn-import-game-details',
+				text: [
+					getTag(headers, 'Event'),
+					getTag(headers, 'Date'),
+					getTag(headers, 'Result'),
+				]
+					.filter((part) => part)
+					.join(' · '),
+			});
+		});
+
+		new Setting(contentEl).addButton((btn) => {
+			this.importButton = btn;
+
+			btn.setCta().onClick(async () => {
+				btn.setDisabled(true);
+				await this.import();
+				this.close();
+			});
+		});
+
+		this.update();
+	}
+
+	selectAll(selected: boolean) {
+		this.selected = new Set(selected ? this.games.keys() : []);
+		this.checkboxes.forEach((checkbox) => (checkbox.checked = selected));
+		this.update();
+	}
+
+	update() {
+		const { size } = this.selected;
+
+		this.importButton
+			.setButtonText(`Import ${size} ${size === 1 ? 'game' : 'games'}`)
+			.setDisabled(!size);
+	}
+
+	/**
+	 * Saves the selected games as studies or chapters and writes the notes
+	 * referencing them. Games that can not be parsed or saved are reported.
+	 */
+	async import() {
+		const { dataAdapter, settings } = this.plugin;
+		const { vault, workspace } = this.app;
+
+		const games: { number: number; chapter: ChessStudyChapter }[] = [];
+		const errors: string[] = [];
+
+		let truncated = 0;
+
+		for (const i of [...this.selected].sort((a, b) => a - b)) {
+			const { pgn, line } = this.games[i];
+
+			try {
+				// Errors point to the line in the file
+				const parsed = parsePgn(pgn, { stopAtIllegalMove: true, firstLine: line });
+
+				games.push({ number: i + 1, chapter: toChapter(parsed) });
+
+				if (parsed.warnings.some((warning) => warning.includes('illegal move'))) {
+					truncated++;
+				}
+			} catch (e) {
+				console.log(e);
+				errors.push(`Could not parse game ${i + 1}: ${e.message}`);
+			}
+		}
+
+		const folder = this.file.parent?.path ?? '/';
+		const notes: TFile[] = [];
+
+		let imported = 0;
+
+		if (games.length && this.noteMode === 'chapters') {
+			const chapters = games.map(({ chapter }) => chapter);
+
+			try {
+				// The first chapter names the study
+				const id = await dataAdapter.saveFile(
+					setStudyTitle(
+						{ version: CURRENT_STORAGE_VERSION, chapters },
+						chapters[0].header.title || this.file.basename
+					)
+				);
+
+				notes.push(
+					await vault.create(
+						getAvailableFilePath(this.app, folder, this.file.basename),
+						`${getChessStudyCodeBlock(id)}\n`
+					)
+				);
+
+				imported = games.length;
+			} catch (e) {
+				console.log(e);
+				errors.push(`Could not save the study: ${e.message}`);
+			}
+		}
+
+		if (games.length && this.noteMode !== 'chapters') {
+			const studies: { header: ChessStudyHeader; id: string }[] = [];
+
+			for (const { number, chapter } of games) {
+				try {
+					const id = await dataAdapter.saveFile({
+						version: CURRENT_STORAGE_VERSION,
+						chapters: [chapter],
+					});
+
+					if (this.noteMode === 'per-game') {
+						notes.push(
+							await vault.create(
+								getAvailableFilePath(this.app, folder, getGameName(chapter.header)),
+								renderNoteTemplate(settings.importNoteTemplate, chapter.header, id)
+							)
+						);
+						imported++;
+					}
+
+					studies.push({ header: chapter.header, id });
+				} catch (e) {
+					console.log(e);
+					errors.push(`Could not save game ${number}: ${e.message}`);
+				}
+			}
+
+			if (this.noteMode === 'single' && studies.length) {
+				const content = studies
+					.map(({ header, id }) =>
+						renderNoteTemplate(settings.importNoteTemplate, header, id)
+					)
+					.join('\n');
+
+				try {
+					notes.push(
+						await vault.create(
+							getAvailableFilePath(this.app, folder, this.file.basename),
+							content
+						)
+					);
+
+					imported = studies.length;
+				} catch (e) {
+					console.log(e);
+					errors.push(`Could not create the note: ${e.message}`);
+				}
+			}
+		}
+
+		const messages = [
+			`Imported ${imported} ${imported === 1 ? 'game' : 'games'} into ${
+				notes.length
+			} ${notes.length === 1 ? 'note' : 'notes'}.`,
+		];
+
+		if (truncated) {
+			messages.push(`${truncated} games were cut off at an illegal move.`);
+		}
+
+		new Notice(
+			[...messages, ...errors].join('\n'),
+			errors.length ? 0 : undefined
+		);
+
+		if (notes.length === 1) await workspace.getLeaf('tab').openFile(notes[0]);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,221 @@
+import { Chess } from 'chess.js';
+import { Chessground } from 'chessground';
+import { Api } from 'chessground/api';
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { toColor, toDests } from 'src/lib/chess-logic';
+import { ReviewLine, toDateString } from 'src/lib/review';
+import { getMoveLabel } from 'src/lib/ui-state';
+import ChessStudyPlugin from 'src/main';
+
+// Milliseconds a played move stays on the board before the reply or the take back
+const REPLY_DELAY = 300;
+
+export class ReviewModal extends Modal {
+	plugin: ChessStudyPlugin;
+	lines: ReviewLine[];
+	lineIndex = 0;
+	// Index of the displayed move of the line, -1 for its start position
+	moveIndex = -1;
+	// Wrong and revealed moves of the current line, any of them fails it
+	mistakes = 0;
+	// Shown after a wrong or revealed move
+	feedback: string | null = null;
+	passed = 0;
+	board: Api | null = null;
+	renderTimeout: number | null = null;
+
+	constructor(app: App, plugin: ChessStudyPlugin, lines: ReviewLine[]) {
+		super(app);
+		this.plugin = plugin;
+		this.lines = lines;
+	}
+
+	onOpen() {
+		this.modalEl.addClass('chess-study-review');
+		this.render();
+	}
+
+	render() {
+		const { contentEl } = this;
+
+		if (this.renderTimeout !== null) window.clearTimeout(this.renderTimeout);
+		this.renderTimeout = null;
+
+		this.board?.destroy();
+		this.board = null;
+		contentEl.empty();
+
+		const line = this.lines[this.lineIndex];
+
+		if (!line) return this.renderSummary();
+
+		contentEl.createEl('h1', {
+			text: `Review ${this.lineIndex + 1} / ${this.lines.length}`,
+		});
+
+		contentEl.createEl('p', {
+			text: [line.title || 'Untitled study', line.chapterTitle, line.label]
+				.filter((part) => part)
+				.join(' · '),
+		});
+
+		if (line.prefix.length) {
+			contentEl.createEl('p', {
+				cls: 'review-prefix',
+				text: line.prefix.map(getMoveLabel).join(' '),
+			});
+		}
+
+		const displayedMove = line.moves[this.moveIndex];
+		const nextMove = line.moves[this.moveIndex + 1];
+		const fen = displayedMove?.after ?? line.startFen;
+		const chess = new Chess(fen);
+
+		// The first move of the line is the trainee's, the replies are played for them
+		this.board = Chessground(
+			contentEl.createDiv({
+				cls: `${this.plugin.settings.boardColor}-board review-board`,
+			}),
+			{
+				fen,
+				orientation: line.moves[0].color === 'w' ? 'white' : 'black',
+				turnColor: toColor(chess),
+				lastMove: displayedMove
+					? [displayedMove.from, displayedMove.to]
+					: undefined,
+				check: chess.isCheck(),
+				viewOnly: !nextMove,
+				coordinates: false,
+				movable: {
+					free: false,
+					color: toColor(chess),
+					dests: toDests(chess),
+					events: { after: (orig, dest) => this.guess(line, orig, dest) },
+				},
+			}
+		);
+
+		if (nextMove) {
+			contentEl.createEl('p', {
+				cls: this.feedback ? 'review-feedback is-wrong' : 'review-feedback',
+				text: this.feedback ?? 'Play the next move of the line.',
+			});
+
+			new Setting(contentEl).addButton((btn) =>
+				btn.setButtonText('Show move').onClick(() => this.reveal(line))
+			);
+
+			return;
+		}
+
+		contentEl.createEl('p', {
+			cls: 'review-line',
+			text: line.moves.map(getMoveLabel).join(' '),
+		});
+
+		const mistakes = `${this.mistakes} ${
+			this.mistakes === 1 ? 'mistake' : 'mistakes'
+		}`;
+
+		contentEl.createEl('p', {
+			text: this.mistakes
+				? `Completed with ${mistakes}, the line is graded as failed.`
+				: 'Completed without mistakes, the line is graded as passed.',
+		});
+
+		new Setting(contentEl).addButton((btn) =>
+			btn
+				.setButtonText('Next line')
+				.setCta()
+				.onClick(() => this.grade(line, !this.mistakes))
+		);
+	}
+
+	renderSummary() {
+		const { contentEl } = this;
+
+		contentEl.createEl('h1', { text: 'Review finished' });
+
+		contentEl.createEl('p', {
+			text: `You passed ${this.passed} of ${this.lines.length} lines.`,
+		});
+
+		new Setting(contentEl).addButton((btn) =>
+			btn.setButtonText('Close').onClick(() => this.close())
+		);
+	}
+
+	/**
+	 * Checks the move played on the board, a wrong move is taken back.
+	 */
+	guess(line: ReviewLine, orig: string, dest: string) {
+		const expectedMove = line.moves[this.moveIndex + 1];
+
+		if (expectedMove.from === orig && expectedMove.to === dest) {
+			this.feedback = null;
+			this.advance(line);
+		} else {
+			this.mistakes++;
+			this.feedback = 'That is not the move of this line, try again.';
+		}
+
+		// Leaves the played move on the board for a moment
+		this.renderTimeout = window.setTimeout(() => this.render(), REPLY_DELAY);
+	}
+
+	reveal(line: ReviewLine) {
+		const expectedMove = line.moves[this.moveIndex + 1];
+
+		this.mistakes++;
+		this.feedback = `The move was ${getMoveLabel(expectedMove)}.`;
+		this.advance(line);
+		this.render();
+	}
+
+	/**
+	 * Plays the trainee's move and the replies up to their next move.
+	 */
+	advance(line: ReviewLine) {
+		const { color } = line.moves[0];
+
+		this.moveIndex++;
+
+		while (
+			line.moves[this.moveIndex + 1] &&
+			line.moves[this.moveIndex + 1].color !== color
+		) {
+			this.moveIndex++;
+		}
+	}
+
+	async grade(line: ReviewLine, passed: boolean) {
+		try {
+			await this.plugin.reviewDatabase.grade(
+				line.cardId,
+				passed,
+				toDateString(new Date())
+			);
+		} catch (e) {
+			console.log(e);
+			new Notice(`Something went wrong during saving the review: ${e.message}`, 0);
+		}
+
+		if (passed) this.passed++;
+
+		this.lineIndex++;
+		this.moveIndex = -1;
+		this.mistakes = 0;
+		this.feedback = null;
+		this.render();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+
+		if (this.renderTimeout !== null) window.clearTimeout(this.renderTimeout);
+
+		this.board?.destroy();
+		this.board = null;
+		contentEl.empty();
+	}
+}
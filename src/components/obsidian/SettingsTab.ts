@@ -1,16 +1,47 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, Platform, PluginSettingTab, Setting } from 'obsidian';
+import { DiagramFormat } from 'src/lib/diagram';
+import { EngineType } from 'src/lib/engine';
+import { DEFAULT_NOTE_TEMPLATE } from 'src/lib/obsidian';
 import ChessStudyPlugin from 'src/main';
 
 export interface ChessStudyPluginSettings {
 	boardOrientation: 'white' | 'black';
 	boardColor: 'green' | 'brown';
 	viewComments: true | false;
+	viewExplorer: true | false;
+	autosave: true | false;
+	confirmUnsavedChanges: true | false;
+	writeBackMigratedStudies: true | false;
+	studyScanInterval: number;
+	engineType: EngineType;
+	enginePath: string;
+	engineLines: number;
+	engineDepth: number;
+	trainingTries: number;
+	importNoteTemplate: string;
+	diagramFormat: DiagramFormat;
+	diagramFolder: string;
+	printDiagram: true | false;
 }
 
 export const DEFAULT_SETTINGS: ChessStudyPluginSettings = {
 	boardOrientation: 'white',
 	boardColor: 'green',
 	viewComments: true,
+	viewExplorer: false,
+	autosave: false,
+	confirmUnsavedChanges: true,
+	writeBackMigratedStudies: false,
+	studyScanInterval: 0,
+	engineType: 'none',
+	enginePath: '',
+	engineLines: 3,
+	engineDepth: 20,
+	trainingTries: 3,
+	importNoteTemplate: DEFAULT_NOTE_TEMPLATE,
+	diagramFormat: 'svg',
+	diagramFolder: '',
+	printDiagram: false,
 };
 
 export class SettingsTab extends PluginSettingTab {
@@ -69,5 +100,224 @@ export class SettingsTab extends PluginSettingTab {
 						this.plugin.saveSettings();
 					});
 			});
+
+		new Setting(containerEl)
+			.setName('View Explorer')
+			.setDesc(
+				'Sets the default view of the explorer listing the moves played in all studies'
+			)
+			.addDropdown((dropdown) => {
+				dropdown.addOption('true', 'True');
+				dropdown.addOption('false', 'False');
+				dropdown
+					.setValue(this.plugin.settings.viewExplorer.toString())
+					.onChange((viewExplorer) => {
+						this.plugin.settings.viewExplorer = viewExplorer === 'true';
+						this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Autosave')
+			.setDesc('Saves the study automatically shortly after each change')
+			.addDropdown((dropdown) => {
+				dropdown.addOption('true', 'True');
+				dropdown.addOption('false', 'False');
+				dropdown
+					.setValue(this.plugin.settings.autosave.toString())
+					.onChange((autosave) => {
+						this.plugin.settings.autosave = autosave === 'true';
+						this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Confirm unsaved changes')
+			.setDesc(
+				'Asks whether to save a study with unsaved changes when it is closed and autosave is off'
+			)
+			.addDropdown((dropdown) => {
+				dropdown.addOption('true', 'True');
+				dropdown.addOption('false', 'False');
+				dropdown
+					.setValue(this.plugin.settings.confirmUnsavedChanges.toString())
+					.onChange((confirmUnsavedChanges) => {
+						this.plugin.settings.confirmUnsavedChanges =
+							confirmUnsavedChanges === 'true';
+						this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Save migrated studies')
+			.setDesc(
+				'Writes studies from older plugin versions back to disk after upgrading them on load'
+			)
+			.addDropdown((dropdown) => {
+				dropdown.addOption('true', 'True');
+				dropdown.addOption('false', 'False');
+				dropdown
+					.setValue(this.plugin.settings.writeBackMigratedStudies.toString())
+					.onChange((writeBackMigratedStudies) => {
+						this.plugin.settings.writeBackMigratedStudies =
+							writeBackMigratedStudies === 'true';
+						this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Scan for orphaned studies')
+			.setDesc(
+				'Regularly checks for stored studies without a code block and code blocks without a stored study'
+			)
+			.addDropdown((dropdown) => {
+				dropdown.addOption('0', 'Never');
+				dropdown.addOption('60', 'Every hour');
+				dropdown.addOption('1440', 'Every day');
+				dropdown
+					.setValue(this.plugin.settings.studyScanInterval.toString())
+					.onChange((studyScanInterval) => {
+						this.plugin.settings.studyScanInterval = parseInt(studyScanInterval);
+						this.plugin.saveSettings();
+						this.plugin.scheduleStudyScan();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Engine')
+			.setDesc('Sets the UCI engine used by the analysis panel')
+			.addDropdown((dropdown) => {
+				dropdown.addOption('none', 'None');
+				dropdown.addOption('script', 'JavaScript file in the vault');
+				if (Platform.isDesktopApp) dropdown.addOption('binary', 'Binary');
+				dropdown
+					.setValue(this.plugin.settings.engineType)
+					.onChange((engineType) => {
+						this.plugin.settings.engineType = engineType as EngineType;
+						this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Engine path')
+			.setDesc(
+				'Vault path of a single file JavaScript (asm.js) engine build or absolute path of an engine binary, WebAssembly builds are not supported'
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder('engines/stockfish.js')
+					.setValue(this.plugin.settings.enginePath)
+					.onChange((enginePath) => {
+						this.plugin.settings.enginePath = enginePath.trim();
+						this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Engine lines')
+			.setDesc('Sets the number of principal variations shown by the engine')
+			.addDropdown((dropdown) => {
+				['1', '2', '3', '4', '5'].forEach((lines) =>
+					dropdown.addOption(lines, lines)
+				);
+				dropdown
+					.setValue(this.plugin.settings.engineLines.toString())
+					.onChange((engineLines) => {
+						this.plugin.settings.engineLines = parseInt(engineLines);
+						this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Engine depth')
+			.setDesc('Stops the analysis at this depth to save battery')
+			.addDropdown((dropdown) => {
+				dropdown.addOption('16', '16');
+				dropdown.addOption('20', '20');
+				dropdown.addOption('24', '24');
+				dropdown.addOption('0', 'Unlimited');
+				dropdown
+					.setValue(this.plugin.settings.engineDepth.toString())
+					.onChange((engineDepth) => {
+						this.plugin.settings.engineDepth = parseInt(engineDepth);
+						this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Training tries')
+			.setDesc(
+				'Sets the number of wrong guesses before the move is shown in training'
+			)
+			.addDropdown((dropdown) => {
+				['1', '2', '3', '5'].forEach((tries) => dropdown.addOption(tries, tries));
+				dropdown
+					.setValue(this.plugin.settings.trainingTries.toString())
+					.onChange((trainingTries) => {
+						this.plugin.settings.trainingTries = parseInt(trainingTries);
+						this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Import note template')
+			.setDesc(
+				'Sets the note content written for each game of an imported PGN file. {{chessStudy}} is replaced by the code block, {{white}}, {{black}}, {{event}}, {{date}}, {{result}} and the other header fields by their values.'
+			)
+			.addTextArea((text) => {
+				text
+					.setValue(this.plugin.settings.importNoteTemplate)
+					.onChange((importNoteTemplate) => {
+						this.plugin.settings.importNoteTemplate =
+							importNoteTemplate || DEFAULT_NOTE_TEMPLATE;
+						this.plugin.saveSettings();
+					});
+				text.inputEl.setCssStyles({ width: '100%', height: '120px' });
+			});
+
+		new Setting(containerEl)
+			.setName('Diagram format')
+			.setDesc('Sets the image format of inserted diagrams')
+			.addDropdown((dropdown) => {
+				dropdown.addOption('svg', 'SVG');
+				dropdown.addOption('png', 'PNG');
+				dropdown
+					.setValue(this.plugin.settings.diagramFormat)
+					.onChange((diagramFormat) => {
+						this.plugin.settings.diagramFormat = diagramFormat as DiagramFormat;
+						this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Diagram folder')
+			.setDesc(
+				'Vault folder inserted diagrams are saved to, leave empty to save them next to the note'
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder('Attachments/Diagrams')
+					.setValue(this.plugin.settings.diagramFolder)
+					.onChange((diagramFolder) => {
+						this.plugin.settings.diagramFolder = diagramFolder.trim();
+						this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Print diagrams')
+			.setDesc(
+				'Replaces the board with a static diagram when a note is printed or exported to PDF'
+			)
+			.addDropdown((dropdown) => {
+				dropdown.addOption('true', 'True');
+				dropdown.addOption('false', 'False');
+				dropdown
+					.setValue(this.plugin.settings.printDiagram.toString())
+					.onChange((printDiagram) => {
+						this.plugin.settings.printDiagram = printDiagram === 'true';
+						this.plugin.saveSettings();
+					});
+			});
 	}
 }
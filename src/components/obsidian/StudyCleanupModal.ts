@@ -0,0 +1,188 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import {
+	ChessStudyReference,
+	replaceChessStudyId,
+	scanStudyReferences,
+} from 'src/lib/obsidian';
+import {
+	CURRENT_STORAGE_VERSION,
+	createChapter,
+	getStudyTitle,
+} from 'src/lib/storage';
+import ChessStudyPlugin from 'src/main';
+import { ConfirmModal } from './ConfirmModal';
+
+// Only code blocks are found, other references to a study are not
+const DELETE_WARNING =
+	'Only chessStudy code blocks in notes and canvases count as references. Deleted studies can not be restored.';
+
+export class StudyCleanupModal extends Modal {
+	plugin: ChessStudyPlugin;
+
+	constructor(app: App, plugin: ChessStudyPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen() {
+		this.refresh();
+	}
+
+	async refresh() {
+		try {
+			await this.render();
+		} catch (e) {
+			console.log(e);
+			new Notice(`Could not scan the study files: ${e.message}`, 0);
+			this.close();
+		}
+	}
+
+	async render() {
+		const { contentEl } = this;
+		const { dataAdapter } = this.plugin;
+
+		const { ids, orphans, dangling } = await scanStudyReferences(
+			this.app,
+			dataAdapter
+		);
+
+		const titles = new Map<string, string>();
+
+		for (const id of ids) {
+			try {
+				const data = await dataAdapter.loadFile(id);
+				titles.set(id, getStudyTitle(data) || 'Untitled study');
+			} catch (e) {
+				titles.set(id, 'Could not be loaded');
+			}
+		}
+
+		contentEl.empty();
+
+		contentEl.createEl('h1', { text: 'Clean up study files' });
+
+		contentEl.createEl('h3', { text: `Orphaned files (${orphans.length})` });
+
+		if (!orphans.length) {
+			contentEl.createEl('p', { text: 'Every stored study is referenced.' });
+		}
+
+		orphans.forEach((id) => {
+			new Setting(contentEl)
+				.setName(titles.get(id) ?? id)
+				.setDesc(`${id}.json is not referenced in any note or canvas`)
+				.addButton((btn) =>
+					btn
+						.setButtonText('Delete')
+						.setWarning()
+						.onClick(() =>
+							new ConfirmModal(
+								this.app,
+								'Delete study',
+								`Do you want to delete ${
+									titles.get(id) ?? id
+								} (${id}.json)? ${DELETE_WARNING}`,
+								'Delete',
+								() => this.run(() => dataAdapter.deleteFile(id))
+							).open()
+						)
+				);
+		});
+
+		if (orphans.length > 1) {
+			new Setting(contentEl).addButton((btn) =>
+				btn
+					.setButtonText('Delete all orphaned files')
+					.setWarning()
+					.onClick(() =>
+						new ConfirmModal(
+							this.app,
+							'Delete orphaned studies',
+							`Do you want to delete all ${orphans.length} orphaned studies? ${DELETE_WARNING}`,
+							'Delete all',
+							() =>
+								this.run(async () => {
+									for (const id of orphans) await dataAdapter.deleteFile(id);
+								})
+						).open()
+					)
+			);
+		}
+
+		contentEl.createEl('h3', { text: `Missing files (${dangling.length})` });
+
+		if (!dangling.length) {
+			contentEl.createEl('p', {
+				text: 'Every code block points to a stored study.',
+			});
+		}
+
+		dangling.forEach((reference) => {
+			let relinkId = orphans[0] ?? ids[0] ?? '';
+
+			new Setting(contentEl)
+				.setName(reference.file.path)
+				.setDesc(
+					`Line ${reference.line + 1}: ${
+						reference.chessStudyId
+							? `${reference.chessStudyId}.json does not exist`
+							: 'no chessStudyId'
+					}`
+				)
+				.addDropdown((dropdown) => {
+					// Unreferenced studies are the most likely candidates
+					[...orphans, ...ids.filter((id) => !orphans.includes(id))].forEach((id) =>
+						dropdown.addOption(id, `${titles.get(id)} (${id})`)
+					);
+
+					dropdown.setValue(relinkId).onChange((id) => {
+						relinkId = id;
+					});
+				})
+				.addButton((btn) =>
+					btn
+						.setButtonText('Re-link')
+						.setDisabled(!ids.length)
+						.onClick(() =>
+							this.run(() => replaceChessStudyId(this.app, reference, relinkId))
+						)
+				)
+				.addButton((btn) =>
+					btn
+						.setButtonText('Recreate')
+						.onClick(() => this.run(() => this.recreateStudy(reference)))
+				);
+		});
+	}
+
+	async recreateStudy(reference: ChessStudyReference) {
+		const id = await this.plugin.dataAdapter.saveFile(
+			{
+				version: CURRENT_STORAGE_VERSION,
+				chapters: [createChapter()],
+			},
+			reference.chessStudyId || undefined
+		);
+
+		if (id !== reference.chessStudyId) {
+			await replaceChessStudyId(this.app, reference, id);
+		}
+	}
+
+	async run(action: () => Promise<unknown>) {
+		try {
+			await action();
+		} catch (e) {
+			console.log(e);
+			new Notice(`Something went wrong during the clean up: ${e.message}`);
+		}
+
+		await this.refresh();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,273 @@
+import { Chessground } from 'chessground';
+import { Api } from 'chessground/api';
+import {
+	ExtraButtonComponent,
+	ItemView,
+	Notice,
+	Setting,
+	WorkspaceLeaf,
+} from 'obsidian';
+import {
+	ChessStudyReference,
+	findChessStudyReferences,
+	getChessStudyCodeBlock,
+} from 'src/lib/obsidian';
+import {
+	ChessStudyFileData,
+	getStudyTitle,
+	setStudyTitle,
+} from 'src/lib/storage';
+import ChessStudyPlugin from 'src/main';
+import { ConfirmModal } from './ConfirmModal';
+import { StudyTitleModal } from './StudyTitleModal';
+
+export const VIEW_TYPE_STUDY_MANAGER = 'chess-study-manager';
+
+const getStudySize = ({ chapters }: ChessStudyFileData) =>
+	chapters.length > 1
+		? `${chapters.length} chapters`
+		: `${chapters[0].moves.length} moves`;
+
+interface StoredStudy {
+	id: string;
+	data: ChessStudyFileData | null;
+	references: ChessStudyReference[];
+}
+
+export class StudyManagerView extends ItemView {
+	plugin: ChessStudyPlugin;
+	thumbnails: Api[] = [];
+	studies: StoredStudy[] = [];
+	// Only studies whose ECO code starts with the filter are listed
+	ecoFilter = '';
+	listEl: HTMLElement;
+
+	constructor(leaf: WorkspaceLeaf, plugin: ChessStudyPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType() {
+		return VIEW_TYPE_STUDY_MANAGER;
+	}
+
+	getDisplayText() {
+		return 'Chess studies';
+	}
+
+	getIcon() {
+		return 'library';
+	}
+
+	async onOpen() {
+		this.addAction('refresh-cw', 'Refresh', () => this.refresh());
+
+		await this.refresh();
+	}
+
+	async onClose() {
+		this.destroyThumbnails();
+	}
+
+	destroyThumbnails() {
+		this.thumbnails.forEach((thumbnail) => thumbnail.destroy());
+		this.thumbnails = [];
+	}
+
+	async loadStudies(): Promise<StoredStudy[]> {
+		const { dataAdapter } = this.plugin;
+
+		const references = await findChessStudyReferences(this.app);
+		const ids = await dataAdapter.listFileIds();
+
+		return Promise.all(
+			ids.map(async (id) => {
+				let data: ChessStudyFileData | null = null;
+
+				try {
+					data = await dataAdapter.loadFile(id);
+				} catch (e) {
+					console.log(e);
+				}
+
+				return {
+					id,
+					data,
+					references: references.filter(
+						(reference) => reference.chessStudyId === id
+					),
+				};
+			})
+		);
+	}
+
+	async refresh() {
+		const container = this.containerEl.children[1];
+
+		this.studies = await this.loadStudies();
+
+		container.empty();
+
+		const root = container.createDiv({ cls: 'chess-study-manager' });
+
+		root.createEl('h4', { text: `Chess studies (${this.studies.length})` });
+
+		if (!this.studies.length) {
+			root.createEl('p', {
+				text:
+					"No studies stored yet. Add one via the 'Insert PGN-Editor at cursor position' command.",
+			});
+		}
+
+		new Setting(root)
+			.setName('ECO filter')
+			.setDesc('Show only studies classified with a code like B90 or B9')
+			.addText((text) =>
+				text.setValue(this.ecoFilter).onChange((ecoFilter) => {
+					this.ecoFilter = ecoFilter.trim().toUpperCase();
+					this.renderStudies();
+				})
+			);
+
+		this.listEl = root.createDiv();
+
+		this.renderStudies();
+	}
+
+	renderStudies() {
+		this.destroyThumbnails();
+		this.listEl.empty();
+
+		this.studies
+			.filter(
+				({ data }) =>
+					!this.ecoFilter ||
+					!!data?.chapters.some(({ header }) =>
+						header.eco?.startsWith(this.ecoFilter)
+					)
+			)
+			.sort((a, b) =>
+				((a.data && getStudyTitle(a.data)) || a.id).localeCompare(
+					(b.data && getStudyTitle(b.data)) || b.id
+				)
+			)
+			.forEach((study) => this.renderStudy(this.listEl, study));
+	}
+
+	renderStudy(root: HTMLElement, study: StoredStudy) {
+		const { id, data, references } = study;
+
+		const row = root.createDiv({ cls: 'study-manager-row' });
+
+		const thumbnail = row.createDiv({
+			cls: `${this.plugin.settings.boardColor}-board study-manager-thumbnail`,
+		});
+
+		if (data) {
+			this.thumbnails.push(
+				Chessground(thumbnail.createDiv({ cls: 'study-manager-board' }), {
+					fen: data.chapters[0].rootFEN,
+					viewOnly: true,
+					coordinates: false,
+					drawable: { enabled: false, visible: false },
+				})
+			);
+		}
+
+		const details = row.createDiv({ cls: 'study-manager-details' });
+
+		details.createDiv({
+			cls: 'study-manager-title',
+			text: data ? getStudyTitle(data) || 'Untitled study' : `${id}.json`,
+		});
+
+		details.createDiv({
+			cls: 'study-manager-meta',
+			text: data
+				? [data.chapters[0].header.eco, getStudySize(data), id]
+						.filter((part) => part)
+						.join(' · ')
+				: 'This study could not be loaded',
+		});
+
+		const notes = details.createDiv({ cls: 'study-manager-notes' });
+
+		if (!references.length) notes.setText('Not referenced in any note');
+
+		references.forEach((reference) => {
+			const link = notes.createEl('a', {
+				text: reference.file.basename,
+				cls: 'internal-link',
+			});
+
+			link.addEventListener('click', () =>
+				this.app.workspace.openLinkText(reference.file.path, '', false)
+			);
+		});
+
+		const actions = row.createDiv({ cls: 'study-manager-actions' });
+
+		if (data) {
+			new ExtraButtonComponent(actions)
+				.setIcon('pencil')
+				.setTooltip('Rename')
+				.onClick(() => this.renameStudy(id, data));
+
+			new ExtraButtonComponent(actions)
+				.setIcon('copy')
+				.setTooltip('Duplicate')
+				.onClick(() => this.duplicateStudy(data));
+		}
+
+		new ExtraButtonComponent(actions)
+			.setIcon('trash')
+			.setTooltip('Delete')
+			.onClick(() => this.deleteStudy(id, references));
+	}
+
+	renameStudy(id: string, data: ChessStudyFileData) {
+		new StudyTitleModal(this.app, getStudyTitle(data) ?? '', async (title) => {
+			try {
+				await this.plugin.dataAdapter.saveFile(
+					setStudyTitle(data, title || null),
+					id
+				);
+				await this.refresh();
+			} catch (e) {
+				new Notice(`Something went wrong during saving: ${e.message}`, 0);
+			}
+		}).open();
+	}
+
+	async duplicateStudy(data: ChessStudyFileData) {
+		try {
+			const title = `${getStudyTitle(data) || 'Untitled study'} (copy)`;
+
+			const id = await this.plugin.dataAdapter.saveFile(
+				setStudyTitle(data, title)
+			);
+
+			await navigator.clipboard.writeText(getChessStudyCodeBlock(id));
+			new Notice('Duplicated study, the code block was copied to clipboard!');
+
+			await this.refresh();
+		} catch (e) {
+			new Notice(`Something went wrong during duplicating: ${e.message}`, 0);
+		}
+	}
+
+	deleteStudy(id: string, references: ChessStudyReference[]) {
+		const message = references.length
+			? `${id}.json is still referenced in ${references.length} note(s). Those code blocks will no longer render.`
+			: `${id}.json will be deleted permanently.`;
+
+		new ConfirmModal(this.app, 'Delete study', message, 'Delete', async () => {
+			try {
+				await this.plugin.dataAdapter.deleteFile(id);
+				await this.refresh();
+			} catch (e) {
+				new Notice(`Something went wrong during deleting: ${e.message}`, 0);
+			}
+		}).open();
+	}
+}
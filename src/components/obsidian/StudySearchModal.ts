@@ -0,0 +1,140 @@
+import { App, Modal, Notice, Setting, TextComponent } from 'obsidian';
+import {
+	ChessStudyReference,
+	findChessStudyReferences,
+} from 'src/lib/obsidian';
+import {
+	SearchQueryError,
+	SearchResult,
+	parseSearchQuery,
+	searchStudies,
+} from 'src/lib/search';
+import ChessStudyPlugin from 'src/main';
+
+export class StudySearchModal extends Modal {
+	plugin: ChessStudyPlugin;
+	query = '';
+	queryInput: TextComponent;
+	resultsEl: HTMLElement;
+
+	constructor(app: App, plugin: ChessStudyPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		const activeStudy = this.plugin.getActiveStudy();
+
+		contentEl.createEl('h1', { text: 'Search studies' });
+
+		new Setting(contentEl)
+			.setName('FEN, ECO code or moves')
+			.setDesc(
+				'A position as FEN, an ECO code like B90 or a move sequence like 1. e4 c5 2. Nf3'
+			)
+			.addText((text) => {
+				this.queryInput = text;
+				text.setValue(this.query).onChange((query) => {
+					this.query = query;
+				});
+				text.inputEl.setCssStyles({ width: '100%' });
+				text.inputEl.addEventListener('keydown', (e) => {
+					if (e.key === 'Enter') this.search();
+				});
+			});
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText('Use current board')
+					.setDisabled(!activeStudy)
+					.onClick(() => {
+						if (!activeStudy) return;
+
+						this.query = activeStudy.getFen();
+						this.queryInput.setValue(this.query);
+						this.search();
+					})
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText('Search')
+					.setCta()
+					.onClick(() => this.search())
+			);
+
+		this.resultsEl = contentEl.createDiv({ cls: 'study-search-results' });
+	}
+
+	async search() {
+		let results: SearchResult[];
+
+		try {
+			results = await searchStudies(
+				this.plugin.dataAdapter,
+				parseSearchQuery(this.query)
+			);
+		} catch (e) {
+			if (e instanceof SearchQueryError) return new Notice(e.message);
+
+			console.log(e);
+			return new Notice('Something went wrong during searching.');
+		}
+
+		const references = await findChessStudyReferences(this.app);
+
+		this.resultsEl.empty();
+
+		this.resultsEl.createEl('h3', { text: `Results (${results.length})` });
+
+		results.forEach((result) =>
+			this.renderResult(
+				result,
+				references.filter(
+					(reference) => reference.chessStudyId === result.chessStudyId
+				)
+			)
+		);
+	}
+
+	renderResult(result: SearchResult, references: ChessStudyReference[]) {
+		new Setting(this.resultsEl)
+			.setName(
+				[result.title || 'Untitled study', result.chapterTitle]
+					.filter((part) => part)
+					.join(' · ')
+			)
+			.setDesc(
+				`${result.moveLabel}${result.isVariant ? ' (variant)' : ''} · ${
+					references.map((reference) => reference.file.basename).join(', ') ||
+					'Not referenced in any note'
+				}`
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText('Open')
+					.setDisabled(!references.length)
+					.onClick(() => this.openResult(result, references[0]))
+			);
+	}
+
+	async openResult(result: SearchResult, reference: ChessStudyReference) {
+		await this.app.workspace.openLinkText(reference.file.path, '', false, {
+			eState: { line: reference.line },
+		});
+
+		this.plugin.studyRegistry.selectMove(
+			result.chessStudyId,
+			result.chapterId,
+			result.moveId
+		);
+
+		this.close();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,41 @@
+import { App, Modal, Setting } from 'obsidian';
+
+export class StudyTitleModal extends Modal {
+	title: string;
+	onSubmit: (title: string) => void;
+
+	constructor(app: App, title: string, onSubmit: (title: string) => void) {
+		super(app);
+		this.title = title;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+
+		contentEl.createEl('h1', {
+			text: 'Rename study',
+		});
+
+		new Setting(contentEl).setName('Title').addText((text) =>
+			text.setValue(this.title).onChange((value) => {
+				this.title = value;
+			})
+		);
+
+		new Setting(contentEl).addButton((btn) =>
+			btn
+				.setButtonText('Submit')
+				.setCta()
+				.onClick(() => {
+					this.close();
+					this.onSubmit(this.title.trim());
+				})
+		);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,60 @@
+import { ChevronLeft, ChevronRight, Trash2 } from 'lucide-react';
+import * as React from 'react';
+import { ChessStudyChapter, getChapterTitle } from 'src/lib/storage';
+
+interface ChapterSwitcherProps {
+	chapters: ChessStudyChapter[];
+	chapterIndex: number;
+	isViewOnly: boolean;
+	onChapterSelect: (chapterId: string) => void;
+	onChapterDelete: (chapterId: string) => void;
+}
+
+export const ChapterSwitcher = ({
+	chapters,
+	chapterIndex,
+	isViewOnly,
+	onChapterSelect,
+	onChapterDelete,
+}: ChapterSwitcherProps) => {
+	const previousChapter = chapters[chapterIndex - 1];
+	const nextChapter = chapters[chapterIndex + 1];
+
+	return (
+		<div className="chapter-switcher">
+			<button
+				title="Previous chapter"
+				disabled={isViewOnly || !previousChapter}
+				onClick={() => onChapterSelect(previousChapter.chapterId)}
+			>
+				<ChevronLeft strokeWidth={'1px'} />
+			</button>
+			<select
+				className="dropdown"
+				disabled={isViewOnly}
+				value={chapters[chapterIndex].chapterId}
+				onChange={(e) => onChapterSelect(e.target.value)}
+			>
+				{chapters.map((chapter, i) => (
+					<option key={chapter.chapterId} value={chapter.chapterId}>
+						{`${i + 1}. ${getChapterTitle(chapter, i)}`}
+					</option>
+				))}
+			</select>
+			<button
+				title="Next chapter"
+				disabled={isViewOnly || !nextChapter}
+				onClick={() => onChapterSelect(nextChapter.chapterId)}
+			>
+				<ChevronRight strokeWidth={'1px'} />
+			</button>
+			<button
+				title="Delete chapter"
+				disabled={isViewOnly}
+				onClick={() => onChapterDelete(chapters[chapterIndex].chapterId)}
+			>
+				<Trash2 strokeWidth={'1px'} />
+			</button>
+		</div>
+	);
+};
@@ -2,27 +2,77 @@ import { JSONContent } from '@tiptap/react';
 import { Chess, Move } from 'chess.js';
 import { Api } from 'chessground/api';
 import { DrawShape } from 'chessground/draw';
-import { nanoid } from 'nanoid';
-import { App, Notice } from 'obsidian';
+import { App, Menu, Notice } from 'obsidian';
 import * as React from 'react';
-import { useCallback, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { BoardEditorModal } from 'src/components/obsidian/BoardEditorModal';
+import { PgnExportModal } from 'src/components/obsidian/PgnExportModal';
 import { ChessStudyPluginSettings } from 'src/components/obsidian/SettingsTab';
-import { parseUserConfig } from 'src/lib/obsidian';
 import {
+	Diagram,
+	getDiagramName,
+	renderDiagram,
+	toDataUri,
+} from 'src/lib/diagram';
+import { classifyLine, withEcoClassification } from 'src/lib/eco';
+import { OpeningExplorerIndex } from 'src/lib/explorer';
+import { toggleNag } from 'src/lib/nag';
+import { getChessStudyCodeBlock, parseUserConfig } from 'src/lib/obsidian';
+import { exportPgn } from 'src/lib/pgn';
+import {
+	CURRENT_STORAGE_VERSION,
+	ChessStudyChapter,
 	ChessStudyDataAdapter,
 	ChessStudyFileData,
+	ChessStudyHeader,
 	ChessStudyMove,
 	VariantMove,
+	createChapter,
+	getStudyTitle,
 } from 'src/lib/storage';
+import { StudyRegistry } from 'src/lib/study-registry';
+import {
+	TrainingState,
+	playTrainingMove,
+	startTraining,
+	stopTraining,
+	withTrainingMode,
+} from 'src/lib/training';
 import {
+	DisplayedPosition,
+	StudySnapshot,
+	addMoveToHistory,
+	deleteFromMove,
+	deleteVariant,
 	displayMoveInHistory,
+	displayRootPosition,
+	findChapterIndex,
 	findMoveIndex,
+	getActiveChapter,
 	getCurrentMove,
+	getDisplayedMove,
+	getDisplayedPosition,
+	getLastMoveOfLine,
+	getLine,
+	getMovePath,
+	getParentMove,
+	getSiblingMoves,
+	moveVariant,
+	promoteOrphanedVariant,
+	promoteVariant,
+	redoEdit,
+	undoEdit,
+	withEditHistory,
 } from 'src/lib/ui-state';
 import { useImmerReducer } from 'use-immer';
+import { ChapterSwitcher } from './ChapterSwitcher';
 import { ChessgroundProps, ChessgroundWrapper } from './ChessgroundWrapper';
 import { CommentSection } from './CommentSection';
+import { EnginePanel } from './EnginePanel';
+import { ExplorerPanel } from './ExplorerPanel';
+import { HeaderPanel } from './HeaderPanel';
 import { PgnViewer } from './PgnViewer';
+import { TrainingPanel } from './TrainingPanel';
 
 export type ChessStudyConfig = ChessgroundProps;
 
@@ -32,44 +82,106 @@ interface AppProps {
 	pluginSettings: ChessStudyPluginSettings;
 	chessStudyData: ChessStudyFileData;
 	dataAdapter: ChessStudyDataAdapter;
+	openingExplorer: OpeningExplorerIndex;
+	onUnsavedChanges: (study: ChessStudyFileData | null) => void;
+	onInsertDiagram: (diagram: Diagram) => void;
+	saveStudy: (
+		study: ChessStudyFileData,
+		displayedPosition?: DisplayedPosition
+	) => Promise<void>;
+	studyRegistry: StudyRegistry;
+	// Position to display once the board exists, e.g. after an inline study was saved
+	initialPosition: DisplayedPosition | null;
 }
 
+const AUTOSAVE_DELAY = 1500;
+
+const NAVIGATION_KEYS: Record<string, GameActions> = {
+	ArrowLeft: { type: 'DISPLAY_PREVIOUS_MOVE_IN_HISTORY' },
+	ArrowRight: { type: 'DISPLAY_NEXT_MOVE_IN_HISTORY' },
+	ArrowUp: { type: 'DISPLAY_SIBLING_MOVE', direction: -1 },
+	ArrowDown: { type: 'DISPLAY_SIBLING_MOVE', direction: 1 },
+	Home: { type: 'DISPLAY_ROOT_POSITION' },
+	End: { type: 'DISPLAY_LAST_MOVE_IN_LINE' },
+};
+
 export interface GameState {
 	currentMove: ChessStudyMove | VariantMove | null;
 	isViewOnly: boolean;
 	study: ChessStudyFileData;
+	// Index of the displayed chapter
+	chapterIndex: number;
+	undoStack: StudySnapshot[];
+	redoStack: StudySnapshot[];
+	training: TrainingState | null;
 }
 
 export type GameActions =
 	| { type: 'ADD_MOVE_TO_HISTORY'; move: Move }
+	| { type: 'ADD_LINE_TO_HISTORY'; moves: Move[] }
 	| { type: 'REMOVE_LAST_MOVE_FROM_HISTORY' }
 	| { type: 'DISPLAY_NEXT_MOVE_IN_HISTORY' }
 	| { type: 'DISPLAY_PREVIOUS_MOVE_IN_HISTORY' }
 	| { type: 'DISPLAY_SELECTED_MOVE_IN_HISTORY'; moveId: string }
+	| { type: 'DISPLAY_ROOT_POSITION' }
+	| { type: 'DISPLAY_LAST_MOVE_IN_LINE' }
+	| { type: 'DISPLAY_SIBLING_MOVE'; direction: -1 | 1 }
 	| { type: 'SYNC_SHAPES'; shapes: DrawShape[] }
-	| { type: 'SYNC_COMMENT'; comment: JSONContent | null };
+	| { type: 'SYNC_COMMENT'; comment: JSONContent | null }
+	| { type: 'TOGGLE_NAG'; nag: number }
+	| { type: 'UPDATE_HEADER'; header: Partial<ChessStudyHeader> }
+	| { type: 'PROMOTE_VARIANT'; moveId: string }
+	| { type: 'MOVE_VARIANT'; moveId: string; direction: -1 | 1 }
+	| { type: 'DELETE_FROM_MOVE'; moveId: string }
+	| { type: 'DELETE_VARIANT'; moveId: string }
+	| { type: 'SELECT_CHAPTER'; chapterId: string }
+	| { type: 'ADD_CHAPTER'; chapter: ChessStudyChapter }
+	| { type: 'DELETE_CHAPTER'; chapterId: string }
+	| { type: 'UNDO_EDIT' }
+	| { type: 'REDO_EDIT' }
+	| { type: 'START_TRAINING'; color: 'w' | 'b' }
+	| { type: 'PLAY_TRAINING_MOVE'; move: Move }
+	| { type: 'STOP_TRAINING' };
 
 export const ChessStudy = ({
 	source,
+	app,
 	pluginSettings,
 	chessStudyData,
 	dataAdapter,
+	openingExplorer,
+	onUnsavedChanges,
+	onInsertDiagram,
+	saveStudy,
+	studyRegistry,
+	initialPosition,
 }: AppProps) => {
 	// Parse Obsidian / Code Block Settings
-	const { boardColor, boardOrientation, viewComments, chessStudyId } =
-		parseUserConfig(pluginSettings, source);
+	const {
+		boardColor,
+		boardOrientation,
+		viewComments,
+		viewExplorer,
+		autosave,
+		chessStudyId,
+		trainingTries,
+		printDiagram,
+	} = parseUserConfig(pluginSettings, source);
+
+	// The engine is only configured in the plugin settings
+	const { engineType, enginePath, engineLines, engineDepth } = pluginSettings;
 
 	// Setup Chessground API
 	const [chessView, setChessView] = useState<Api | null>(null);
 
-	// Setup Chess.js API
-	const [initialChessLogic, firstPlayer, initialMoveNumber] = useMemo(() => {
-		const chess = new Chess(chessStudyData.rootFEN);
+	// The first chapter is displayed initially
+	const [initialChapter] = chessStudyData.chapters;
 
-		const firstPlayer = chess.turn();
-		const initialMoveNumber = chess.moveNumber();
+	// Setup Chess.js API
+	const initialChessLogic = useMemo(() => {
+		const chess = new Chess(initialChapter.rootFEN);
 
-		chessStudyData.moves.forEach((move) => {
+		initialChapter.moves.forEach((move) => {
 			chess.move({
 				from: move.from,
 				to: move.to,
@@ -77,245 +189,664 @@ export const ChessStudy = ({
 			});
 		});
 
-		return [chess, firstPlayer, initialMoveNumber];
-	}, [chessStudyData.moves, chessStudyData.rootFEN]);
+		return chess;
+	}, [initialChapter]);
 
 	const [chessLogic, setChessLogic] = useState(initialChessLogic);
 
 	const [gameState, dispatch] = useImmerReducer<GameState, GameActions>(
-		(draft, action) => {
-			const hasNoMoves = draft.study.moves.length === 0;
-			switch (action.type) {
-				case 'DISPLAY_NEXT_MOVE_IN_HISTORY': {
-					if (!chessView || hasNoMoves) return draft;
-
-					displayMoveInHistory(draft, chessView, setChessLogic, {
-						offset: 1,
-						selectedMoveId: null,
-					});
-
-					return draft;
-				}
-				case 'DISPLAY_PREVIOUS_MOVE_IN_HISTORY': {
-					if (!chessView || hasNoMoves) return draft;
+		withTrainingMode(
+			withEditHistory(
+				withEcoClassification((draft, action) => {
+					const moves = getActiveChapter(draft).moves;
+					const hasNoMoves = moves.length === 0;
+					switch (action.type) {
+						case 'START_TRAINING': {
+							if (!chessView || hasNoMoves) return draft;
+
+							return startTraining(draft, chessView, setChessLogic, action.color);
+						}
+						case 'PLAY_TRAINING_MOVE': {
+							if (!chessView) return draft;
+
+							return playTrainingMove(
+								draft,
+								chessView,
+								setChessLogic,
+								action.move,
+								trainingTries
+							);
+						}
+						case 'STOP_TRAINING': {
+							return stopTraining(draft);
+						}
+						case 'UNDO_EDIT': {
+							if (!chessView) return draft;
 
-					displayMoveInHistory(draft, chessView, setChessLogic, {
-						offset: -1,
-						selectedMoveId: null,
-					});
+							return undoEdit(draft, chessView, setChessLogic);
+						}
+						case 'REDO_EDIT': {
+							if (!chessView) return draft;
 
-					return draft;
-				}
-				case 'REMOVE_LAST_MOVE_FROM_HISTORY': {
-					if (!chessView || hasNoMoves) return draft;
+							return redoEdit(draft, chessView, setChessLogic);
+						}
+						case 'DISPLAY_NEXT_MOVE_IN_HISTORY': {
+							if (!chessView || hasNoMoves) return draft;
 
-					const moves = draft.study.moves;
+							displayMoveInHistory(draft, chessView, setChessLogic, {
+								offset: 1,
+								selectedMoveId: null,
+							});
 
-					const currentMoveId = draft.currentMove?.moveId;
+							return draft;
+						}
+						case 'DISPLAY_PREVIOUS_MOVE_IN_HISTORY': {
+							if (!chessView || hasNoMoves) return draft;
 
-					if (currentMoveId) {
-						const { variant, moveIndex } = findMoveIndex(moves, currentMoveId);
+							displayMoveInHistory(draft, chessView, setChessLogic, {
+								offset: -1,
+								selectedMoveId: null,
+							});
 
-						if (variant) {
-							const parent = moves[variant.parentMoveIndex];
-							const variantMoves = parent.variants[variant.variantIndex].moves;
+							return draft;
+						}
+						case 'DISPLAY_ROOT_POSITION': {
+							if (!chessView) return draft;
 
-							const isLastMove = moveIndex === variantMoves.length - 1;
+							return displayRootPosition(draft, chessView, setChessLogic);
+						}
+						case 'DISPLAY_LAST_MOVE_IN_LINE': {
+							if (!chessView || hasNoMoves) return draft;
 
-							if (isLastMove) {
-								displayMoveInHistory(draft, chessView, setChessLogic, {
-									offset: -1,
-									selectedMoveId: currentMoveId,
-								});
-							}
+							const lastMove = getLastMoveOfLine(
+								moves,
+								draft.currentMove?.moveId ?? null
+							);
 
-							variantMoves.pop();
-							if (variantMoves.length === 0) {
-								parent.variants.splice(variant.variantIndex, 1);
-							}
+							if (!lastMove) return draft;
+
+							displayMoveInHistory(draft, chessView, setChessLogic, {
+								offset: 0,
+								selectedMoveId: lastMove.moveId,
+							});
+
+							return draft;
+						}
+						case 'DISPLAY_SIBLING_MOVE': {
+							const currentMoveId = draft.currentMove?.moveId;
+
+							if (!chessView || !currentMoveId) return draft;
+
+							const siblings = getSiblingMoves(moves, currentMoveId);
+
+							const siblingMove =
+								siblings[
+									siblings.findIndex((move) => move.moveId === currentMoveId) +
+										action.direction
+								];
+
+							if (!siblingMove) return draft;
+
+							displayMoveInHistory(draft, chessView, setChessLogic, {
+								offset: 0,
+								selectedMoveId: siblingMove.moveId,
+							});
+
+							return draft;
+						}
+						case 'REMOVE_LAST_MOVE_FROM_HISTORY': {
+							if (!chessView || hasNoMoves) return draft;
+
+							const currentMoveId = draft.currentMove?.moveId;
+
+							if (currentMoveId) {
+								const { variants, moveIndex } = findMoveIndex(moves, currentMoveId);
+
+								const line = getLine(moves, variants);
+								const parent = getParentMove(moves, variants);
+
+								const isLastMove = moveIndex === line.length - 1;
+
+								if (isLastMove) {
+									displayMoveInHistory(draft, chessView, setChessLogic, {
+										offset: -1,
+										selectedMoveId: currentMoveId,
+									});
+								}
+
+								line.pop();
+
+								promoteOrphanedVariant(line);
 
-							if (isLastMove) {
-								draft.currentMove =
-									variantMoves.length > 0
-										? variantMoves[variantMoves.length - 1]
-										: moves[variant.parentMoveIndex];
+								if (parent && line.length === 0) {
+									parent.variants.splice(variants[variants.length - 1].variantIndex, 1);
+								}
+
+								if (isLastMove) {
+									draft.currentMove = line.length > 0 ? line[line.length - 1] : parent;
+								}
 							}
-						} else {
-							const isLastMove = moveIndex === moves.length - 1;
 
-							if (isLastMove) {
+							return draft;
+						}
+						case 'PROMOTE_VARIANT': {
+							promoteVariant(moves, action.moveId);
+
+							draft.currentMove = getCurrentMove(draft);
+
+							return draft;
+						}
+						case 'MOVE_VARIANT': {
+							moveVariant(moves, action.moveId, action.direction);
+
+							draft.currentMove = getCurrentMove(draft);
+
+							return draft;
+						}
+						case 'DELETE_FROM_MOVE':
+						case 'DELETE_VARIANT': {
+							if (!chessView) return draft;
+
+							const fallbackMove =
+								action.type === 'DELETE_FROM_MOVE'
+									? deleteFromMove(moves, action.moveId)
+									: deleteVariant(moves, action.moveId);
+
+							const currentMove = getCurrentMove(draft);
+
+							if (currentMove) {
+								draft.currentMove = currentMove;
+							} else if (fallbackMove) {
 								displayMoveInHistory(draft, chessView, setChessLogic, {
-									offset: -1,
-									selectedMoveId: currentMoveId,
+									offset: 0,
+									selectedMoveId: fallbackMove.moveId,
 								});
+							} else {
+								displayRootPosition(draft, chessView, setChessLogic);
 							}
 
-							moves.pop();
-
-							if (isLastMove) {
-								draft.currentMove = moves.length > 0 ? moves[moves.length - 1] : null;
-							}
+							return draft;
 						}
-					}
+						case 'DISPLAY_SELECTED_MOVE_IN_HISTORY': {
+							if (!chessView) return draft;
 
-					return draft;
-				}
-				case 'DISPLAY_SELECTED_MOVE_IN_HISTORY': {
-					if (!chessView || hasNoMoves) return draft;
+							const selectedMoveId = action.moveId;
 
-					const selectedMoveId = action.moveId;
+							// Moves of other chapters, e.g. from the search, switch the chapter
+							const chapterIndex = findChapterIndex(draft.study, selectedMoveId);
 
-					displayMoveInHistory(draft, chessView, setChessLogic, {
-						offset: 0,
-						selectedMoveId: selectedMoveId,
-					});
+							if (chapterIndex < 0) return draft;
 
-					return draft;
-				}
-				case 'SYNC_SHAPES': {
-					if (!chessView || hasNoMoves) return draft;
+							draft.chapterIndex = chapterIndex;
 
-					const move = getCurrentMove(draft);
+							displayMoveInHistory(draft, chessView, setChessLogic, {
+								offset: 0,
+								selectedMoveId: selectedMoveId,
+							});
 
-					if (move) {
-						move.shapes = action.shapes;
-						draft.currentMove = move;
-					}
+							return draft;
+						}
+						case 'SYNC_SHAPES': {
+							if (!chessView || hasNoMoves) return draft;
 
-					return draft;
-				}
-				case 'SYNC_COMMENT': {
-					if (!chessView || hasNoMoves) return draft;
+							const move = getCurrentMove(draft);
+
+							if (move) {
+								move.shapes = action.shapes;
+								draft.currentMove = move;
+							}
 
-					const move = getCurrentMove(draft);
+							return draft;
+						}
+						case 'SYNC_COMMENT': {
+							if (!chessView || hasNoMoves) return draft;
 
-					if (move) {
-						move.comment = action.comment;
-						draft.currentMove = move;
-					}
+							const move = getCurrentMove(draft);
 
-					return draft;
-				}
-				case 'ADD_MOVE_TO_HISTORY': {
-					const newMove = action.move;
+							if (move) {
+								move.comment = action.comment;
+								draft.currentMove = move;
+							}
 
-					const moves = draft.study.moves;
-					const currentMoveId = draft.currentMove?.moveId;
+							return draft;
+						}
+						case 'TOGGLE_NAG': {
+							if (!chessView || hasNoMoves) return draft;
 
-					const moveId = nanoid();
+							const move = getCurrentMove(draft);
 
-					if (currentMoveId) {
-						const currentMoveIndex = moves.findIndex(
-							(move) => move.moveId === currentMoveId
-						);
+							if (move) {
+								move.nags = toggleNag(move.nags, action.nag);
+								draft.currentMove = move;
+							}
 
-						const { variant, moveIndex } = findMoveIndex(moves, currentMoveId);
+							return draft;
+						}
+						case 'UPDATE_HEADER': {
+							Object.assign(getActiveChapter(draft).header, action.header);
 
-						if (variant) {
-							//handle variant
-							const parent = moves[variant.parentMoveIndex];
-							const variantMoves = parent.variants[variant.variantIndex].moves;
+							return draft;
+						}
+						case 'SELECT_CHAPTER': {
+							const chapterIndex = draft.study.chapters.findIndex(
+								(chapter) => chapter.chapterId === action.chapterId
+							);
 
-							const isLastMove = moveIndex === variantMoves.length - 1;
+							if (!chessView || chapterIndex < 0) return draft;
 
-							//Only push if its the last move in the variant because depth can only be 1
-							if (isLastMove) {
-								const move = {
-									...newMove,
-									moveId: moveId,
-									shapes: [],
-									comment: null,
-								};
-								variantMoves.push(move);
+							draft.chapterIndex = chapterIndex;
 
-								const tempChess = new Chess(newMove.after);
+							return displayRootPosition(draft, chessView, setChessLogic);
+						}
+						case 'ADD_CHAPTER': {
+							if (!chessView) return draft;
 
-								draft.currentMove = move;
+							draft.study.chapters.push(action.chapter);
+							draft.chapterIndex = draft.study.chapters.length - 1;
 
-								chessView?.set({
-									fen: newMove.after,
-									check: tempChess.isCheck(),
-								});
+							return displayRootPosition(draft, chessView, setChessLogic);
+						}
+						case 'DELETE_CHAPTER': {
+							const { chapters } = draft.study;
+							const chapterIndex = chapters.findIndex(
+								(chapter) => chapter.chapterId === action.chapterId
+							);
+
+							// A study keeps at least one chapter
+							if (!chessView || chapterIndex < 0 || chapters.length < 2) {
+								return draft;
 							}
-						} else {
-							//handle main line
-							const isLastMove = currentMoveIndex === moves.length - 1;
-
-							if (isLastMove) {
-								const move = {
-									...newMove,
-									moveId: moveId,
-									variants: [],
-									shapes: [],
-									comment: null,
-								};
-								moves.push(move);
 
-								draft.currentMove = move;
-							} else {
-								const currentMove = moves[moveIndex];
+							chapters.splice(chapterIndex, 1);
+
+							if (chapterIndex < draft.chapterIndex) {
+								draft.chapterIndex--;
+							} else if (chapterIndex === draft.chapterIndex) {
+								draft.chapterIndex = Math.min(chapterIndex, chapters.length - 1);
+								displayRootPosition(draft, chessView, setChessLogic);
+							}
+
+							return draft;
+						}
+						case 'ADD_MOVE_TO_HISTORY': {
+							const isAdded = addMoveToHistory(draft, action.move);
+
+							if (!isAdded && chessView) {
+								// Variants need a parent move, so there are none for the first move
+								new Notice('Variants of the first move are not supported.');
 
-								// check if the next move is the same move
-								const nextMove = moves[moveIndex + 1];
+								displayRootPosition(draft, chessView, setChessLogic);
+							}
+
+							return draft;
+						}
+						case 'ADD_LINE_TO_HISTORY': {
+							if (!chessView) return draft;
 
-								if (nextMove.san === newMove.san) {
-									draft.currentMove = nextMove;
-									return draft;
+							for (const move of action.moves) {
+								if (!addMoveToHistory(draft, move)) {
+									new Notice('Variants of the first move are not supported.');
+									break;
 								}
+							}
 
-								const move = {
-									...newMove,
-									moveId: moveId,
-									shapes: [],
-									comment: null,
-								};
-
-								currentMove.variants.push({
-									parentMoveId: currentMove.moveId,
-									variantId: nanoid(),
-									moves: [move],
-								});
+							// Unlike moves played on the board the line still has to be displayed
+							const currentMoveId = draft.currentMove?.moveId;
 
-								draft.currentMove = move;
+							if (currentMoveId) {
+								displayMoveInHistory(draft, chessView, setChessLogic, {
+									offset: 0,
+									selectedMoveId: currentMoveId,
+								});
 							}
+
+							return draft;
 						}
-					} else {
-						const move = {
-							...newMove,
-							moveId: moveId,
-							variants: [],
-							shapes: [],
-							comment: null,
-						};
-						moves.push(move);
-
-						draft.currentMove = move;
+						default:
+							break;
 					}
-
-					return draft;
-				}
-				default:
-					break;
-			}
-		},
+				})
+			)
+		),
 		{
-			currentMove: chessStudyData.moves[chessStudyData.moves.length - 1] ?? null,
+			currentMove: initialChapter.moves[initialChapter.moves.length - 1] ?? null,
 			isViewOnly: false,
 			study: chessStudyData,
+			chapterIndex: 0,
+			undoStack: [],
+			redoStack: [],
+			training: null,
 		}
 	);
 
+	const activeChapter = getActiveChapter(gameState);
+
+	const [firstPlayer, initialMoveNumber] = useMemo(() => {
+		const chess = new Chess(activeChapter.rootFEN);
+
+		return [chess.turn(), chess.moveNumber()];
+	}, [activeChapter.rootFEN]);
+
+	// Immer keeps the study reference stable until the study itself changes
+	const [savedStudy, setSavedStudy] = useState(chessStudyData);
+
+	const isDirty = gameState.study !== savedStudy;
+
+	useEffect(() => {
+		onUnsavedChanges(isDirty ? gameState.study : null);
+	}, [gameState.study, isDirty, onUnsavedChanges]);
+
+	useEffect(() => {
+		if (!autosave || !isDirty) return;
+
+		const study = gameState.study;
+
+		const timeout = window.setTimeout(async () => {
+			try {
+				await saveStudy(study);
+				setSavedStudy(study);
+			} catch (e) {
+				new Notice(`Something went wrong during autosaving: ${e.message}`, 0);
+			}
+		}, AUTOSAVE_DELAY);
+
+		return () => window.clearTimeout(timeout);
+	}, [autosave, gameState.study, isDirty, saveStudy]);
+
 	const onSaveButtonClick = useCallback(async () => {
 		try {
-			await dataAdapter.saveFile(gameState.study, chessStudyId);
+			const study = gameState.study;
+
+			await saveStudy(study, getDisplayedPosition(gameState));
+			setSavedStudy(study);
 			new Notice('Save successfull!');
 		} catch (e) {
-			new Notice('Something went wrong during saving:', e);
+			new Notice(`Something went wrong during saving: ${e.message}`, 0);
 		}
-	}, [chessStudyId, dataAdapter, gameState.study]);
+	}, [gameState, saveStudy]);
+
+	const onExportButtonClick = useCallback(() => {
+		new PgnExportModal(
+			app,
+			exportPgn(gameState.study),
+			getStudyTitle(gameState.study) || chessStudyId
+		).open();
+	}, [app, chessStudyId, gameState.study]);
+
+	const onTrainingButtonClick = useCallback(
+		(event: MouseEvent) => {
+			const menu = new Menu();
+
+			menu.addItem((item) =>
+				item
+					.setTitle('Train as White')
+					.onClick(() => dispatch({ type: 'START_TRAINING', color: 'w' }))
+			);
+
+			menu.addItem((item) =>
+				item
+					.setTitle('Train as Black')
+					.onClick(() => dispatch({ type: 'START_TRAINING', color: 'b' }))
+			);
+
+			menu.showAtMouseEvent(event);
+		},
+		[dispatch]
+	);
+
+	// The edited position starts a new study, its code block is copied to the clipboard
+	const onBoardEditorButtonClick = useCallback(() => {
+		new BoardEditorModal(app, pluginSettings, chessLogic.fen(), async (fen) => {
+			try {
+				const id = await dataAdapter.saveFile({
+					version: CURRENT_STORAGE_VERSION,
+					chapters: [createChapter({ rootFEN: fen })],
+				});
+
+				await navigator.clipboard.writeText(getChessStudyCodeBlock(id));
+				new Notice('Created a new study, the code block was copied to clipboard!');
+			} catch (e) {
+				new Notice(
+					`Something went wrong during creating the study: ${e.message}`,
+					0
+				);
+			}
+		}).open();
+	}, [app, chessLogic, dataAdapter, pluginSettings]);
+
+	const onAddChapterButtonClick = useCallback(
+		(event: MouseEvent) => {
+			const menu = new Menu();
+
+			menu.addItem((item) =>
+				item
+					.setTitle('From the starting position')
+					.onClick(() => dispatch({ type: 'ADD_CHAPTER', chapter: createChapter() }))
+			);
+
+			menu.addItem((item) =>
+				item.setTitle('From the displayed position').onClick(() =>
+					dispatch({
+						type: 'ADD_CHAPTER',
+						chapter: createChapter({ rootFEN: chessLogic.fen() }),
+					})
+				)
+			);
+
+			menu.showAtMouseEvent(event);
+		},
+		[chessLogic, dispatch]
+	);
+
+	// Static rendering of the displayed position, e.g. for printing
+	const getDiagram = useCallback((): Diagram => {
+		const { currentMove } = gameState;
+		const fen = chessLogic.fen();
+
+		return {
+			svg: renderDiagram(fen, {
+				orientation: boardOrientation,
+				boardColor,
+				lastMove: currentMove ? [currentMove.from, currentMove.to] : null,
+				shapes: currentMove?.shapes,
+			}),
+			name: getDiagramName(
+				getStudyTitle(gameState.study) || chessStudyId || 'Chess diagram',
+				fen,
+				currentMove?.san
+			),
+		};
+	}, [boardColor, boardOrientation, chessLogic, chessStudyId, gameState]);
+
+	const printedDiagram = useMemo(
+		() => (printDiagram ? toDataUri(getDiagram().svg) : null),
+		[getDiagram, printDiagram]
+	);
+
+	// Upcoming moves stay hidden while training
+	const displayedMoves = useMemo(() => {
+		const { currentMove, training } = gameState;
+		const { moves } = getActiveChapter(gameState);
+
+		if (!training) return moves;
+
+		const moveIndex = currentMove
+			? findMoveIndex(moves, currentMove.moveId).moveIndex
+			: -1;
+
+		return moves
+			.slice(0, moveIndex + 1)
+			.map((move) => ({ ...move, variants: [] }));
+	}, [gameState]);
+
+	// The deepest classified position on the way to the displayed move
+	const opening = useMemo(() => {
+		const { currentMove } = gameState;
+
+		if (!currentMove) return null;
+
+		return classifyLine(
+			getMovePath(getActiveChapter(gameState).moves, currentMove.moveId)
+		);
+	}, [gameState]);
+
+	const onMoveItemContextMenu = useCallback(
+		(moveId: string, event: MouseEvent) => {
+			const { variants } = findMoveIndex(activeChapter.moves, moveId);
+			const parent = getParentMove(activeChapter.moves, variants);
+
+			const menu = new Menu();
+
+			if (parent) {
+				const { variantIndex } = variants[variants.length - 1];
+
+				menu.addItem((item) =>
+					item
+						.setTitle('Promote to main line')
+						.setIcon('arrow-up-to-line')
+						.onClick(() => dispatch({ type: 'PROMOTE_VARIANT', moveId }))
+				);
+
+				menu.addItem((item) =>
+					item
+						.setTitle('Move up')
+						.setIcon('arrow-up')
+						.setDisabled(variantIndex === 0)
+						.onClick(() => dispatch({ type: 'MOVE_VARIANT', moveId, direction: -1 }))
+				);
+
+				menu.addItem((item) =>
+					item
+						.setTitle('Move down')
+						.setIcon('arrow-down')
+						.setDisabled(variantIndex === parent.variants.length - 1)
+						.onClick(() => dispatch({ type: 'MOVE_VARIANT', moveId, direction: 1 }))
+				);
+
+				menu.addSeparator();
+			}
+
+			menu.addItem((item) =>
+				item
+					.setTitle('Delete from here')
+					.setIcon('scissors')
+					.onClick(() => dispatch({ type: 'DELETE_FROM_MOVE', moveId }))
+			);
+
+			if (parent) {
+				menu.addItem((item) =>
+					item
+						.setTitle('Delete variation')
+						.setIcon('trash')
+						.onClick(() => dispatch({ type: 'DELETE_VARIANT', moveId }))
+				);
+			}
+
+			menu.showAtMouseEvent(event);
+		},
+		[activeChapter.moves, dispatch]
+	);
+
+	const onKeyDown = useCallback(
+		(e: React.KeyboardEvent<HTMLDivElement>) => {
+			const target = e.target as HTMLElement;
+
+			// Leave the shortcuts to the comment editor while typing
+			if (target.isContentEditable || target.closest('input, textarea')) return;
+
+			if (e.altKey) return;
+
+			const key = e.key.toLowerCase();
+
+			if (!(e.ctrlKey || e.metaKey) && NAVIGATION_KEYS[e.key]) {
+				dispatch(NAVIGATION_KEYS[e.key]);
+			} else if ((e.ctrlKey || e.metaKey) && key === 'z' && !e.shiftKey) {
+				dispatch({ type: 'UNDO_EDIT' });
+			} else if (
+				(e.ctrlKey || e.metaKey) &&
+				((key === 'z' && e.shiftKey) || key === 'y')
+			) {
+				dispatch({ type: 'REDO_EDIT' });
+			} else {
+				return;
+			}
+
+			e.preventDefault();
+			e.stopPropagation();
+		},
+		[dispatch]
+	);
+
+	// Commands and the search reach the study through the registry
+	const chessLogicRef = useRef(chessLogic);
+	chessLogicRef.current = chessLogic;
+
+	const getDiagramRef = useRef(getDiagram);
+	getDiagramRef.current = getDiagram;
+
+	const containerRef = useRef<HTMLDivElement>(null);
+
+	const studyHandle = useMemo(
+		() => ({
+			chessStudyId,
+			dispatch,
+			getFen: () => chessLogicRef.current.fen(),
+			getDiagram: () => getDiagramRef.current(),
+			getContainerEl: () => containerRef.current,
+		}),
+		[chessStudyId, dispatch]
+	);
+
+	useEffect(() => {
+		if (!chessView || !initialPosition) return;
+
+		const displayedMove = getDisplayedMove(chessStudyData, initialPosition);
+
+		if (!displayedMove) return;
+
+		dispatch(
+			displayedMove.moveId
+				? { type: 'DISPLAY_SELECTED_MOVE_IN_HISTORY', moveId: displayedMove.moveId }
+				: { type: 'SELECT_CHAPTER', chapterId: displayedMove.chapterId }
+		);
+	}, [chessStudyData, chessView, dispatch, initialPosition]);
+
+	// Registered once the board exists, so a pending move selection can be displayed
+	useEffect(() => {
+		if (!chessView) return;
+
+		return studyRegistry.register(studyHandle);
+	}, [chessView, studyHandle, studyRegistry]);
 
 	return (
-		<div className="chess-study">
+		<div
+			ref={containerRef}
+			className={printedDiagram ? 'chess-study has-print-diagram' : 'chess-study'}
+			tabIndex={0}
+			onKeyDown={onKeyDown}
+			onFocus={() => studyRegistry.activate(studyHandle)}
+		>
+			{gameState.study.chapters.length > 1 && (
+				<ChapterSwitcher
+					chapters={gameState.study.chapters}
+					chapterIndex={gameState.chapterIndex}
+					isViewOnly={!!gameState.training}
+					onChapterSelect={(chapterId) =>
+						dispatch({ type: 'SELECT_CHAPTER', chapterId })
+					}
+					onChapterDelete={(chapterId) =>
+						dispatch({ type: 'DELETE_CHAPTER', chapterId })
+					}
+				/>
+			)}
+			<HeaderPanel
+				header={activeChapter.header}
+				opening={opening}
+				isViewOnly={!!gameState.training}
+				onHeaderChange={(field, value) =>
+					dispatch({ type: 'UPDATE_HEADER', header: { [field]: value } })
+				}
+			/>
 			<div className="chessground-pgn-container">
 				<div className="chessground-container">
 					<ChessgroundWrapper
@@ -327,7 +858,10 @@ export const ChessStudy = ({
 						boardColor={boardColor}
 						chess={chessLogic}
 						addMoveToHistory={(move: Move) =>
-							dispatch({ type: 'ADD_MOVE_TO_HISTORY', move })
+							dispatch({
+								type: gameState.training ? 'PLAY_TRAINING_MOVE' : 'ADD_MOVE_TO_HISTORY',
+								move,
+							})
 						}
 						isViewOnly={gameState.isViewOnly}
 						syncShapes={(shapes: DrawShape[]) =>
@@ -339,19 +873,27 @@ export const ChessStudy = ({
 
 				<div className="pgn-container">
 					<PgnViewer
-						history={gameState.study.moves}
+						history={displayedMoves}
+						result={gameState.training ? null : activeChapter.header.result}
 						currentMoveId={gameState.currentMove?.moveId ?? null}
+						currentMoveNags={gameState.currentMove?.nags ?? null}
+						onNagSelect={(nag) => dispatch({ type: 'TOGGLE_NAG', nag })}
 						firstPlayer={firstPlayer}
 						initialMoveNumber={initialMoveNumber}
-						onUndoButtonClick={() =>
+						onUndoButtonClick={() => dispatch({ type: 'UNDO_EDIT' })}
+						onRedoButtonClick={() => dispatch({ type: 'REDO_EDIT' })}
+						onDeleteButtonClick={() =>
 							dispatch({ type: 'REMOVE_LAST_MOVE_FROM_HISTORY' })
 						}
+						canUndo={gameState.undoStack.length > 0}
+						canRedo={gameState.redoStack.length > 0}
 						onBackButtonClick={() =>
 							dispatch({ type: 'DISPLAY_PREVIOUS_MOVE_IN_HISTORY' })
 						}
 						onForwardButtonClick={() =>
 							dispatch({ type: 'DISPLAY_NEXT_MOVE_IN_HISTORY' })
 						}
+						onMoveItemContextMenu={onMoveItemContextMenu}
 						onMoveItemClick={(moveId: string) =>
 							dispatch({
 								type: 'DISPLAY_SELECTED_MOVE_IN_HISTORY',
@@ -359,17 +901,53 @@ export const ChessStudy = ({
 							})
 						}
 						onSaveButtonClick={onSaveButtonClick}
+						isDirty={isDirty}
 						onCopyButtonClick={() => {
 							try {
 								navigator.clipboard.writeText(chessLogic.fen());
 								new Notice('Copied to clipboard!');
 							} catch (e) {
-								new Notice('Could not copy to clipboard:', e);
+								new Notice(`Could not copy to clipboard: ${e.message}`, 0);
 							}
 						}}
+						onExportButtonClick={onExportButtonClick}
+						onTrainingButtonClick={onTrainingButtonClick}
+						onBoardEditorButtonClick={onBoardEditorButtonClick}
+						onAddChapterButtonClick={onAddChapterButtonClick}
+						onDiagramButtonClick={() => onInsertDiagram(getDiagram())}
 					/>
 				</div>
 			</div>
+			{gameState.training && (
+				<TrainingPanel
+					training={gameState.training}
+					trainingTries={trainingTries}
+					onMissClick={(moveId) => {
+						dispatch({ type: 'STOP_TRAINING' });
+						dispatch({ type: 'DISPLAY_SELECTED_MOVE_IN_HISTORY', moveId });
+					}}
+					onStop={() => dispatch({ type: 'STOP_TRAINING' })}
+				/>
+			)}
+			{engineType !== 'none' && !gameState.training && (
+				<EnginePanel
+					app={app}
+					options={{ engineType, enginePath, engineLines, engineDepth }}
+					fen={chessLogic.fen()}
+					onPvClick={(moves: Move[]) =>
+						dispatch({ type: 'ADD_LINE_TO_HISTORY', moves })
+					}
+				/>
+			)}
+			{viewExplorer && !gameState.training && (
+				<ExplorerPanel
+					app={app}
+					openingExplorer={openingExplorer}
+					dataAdapter={dataAdapter}
+					fen={chessLogic.fen()}
+					chessStudyId={chessStudyId}
+				/>
+			)}
 			{viewComments && (
 				<div className="CommentSection">
 					<CommentSection
@@ -380,6 +958,9 @@ export const ChessStudy = ({
 					/>
 				</div>
 			)}
+			{printedDiagram && (
+				<img className="chess-study-print-diagram" src={printedDiagram} />
+			)}
 		</div>
 	);
 };
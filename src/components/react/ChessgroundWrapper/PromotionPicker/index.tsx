@@ -0,0 +1,48 @@
+import { BISHOP, KNIGHT, PieceSymbol, QUEEN, ROOK } from 'chess.js';
+import * as React from 'react';
+
+const PROMOTION_PIECES: { symbol: PieceSymbol; role: string }[] = [
+	{ symbol: QUEEN, role: 'queen' },
+	{ symbol: ROOK, role: 'rook' },
+	{ symbol: BISHOP, role: 'bishop' },
+	{ symbol: KNIGHT, role: 'knight' },
+];
+
+interface PromotionPickerProps {
+	color: 'white' | 'black';
+	onSelect: (piece: PieceSymbol) => void;
+	onCancel: () => void;
+}
+
+export const PromotionPicker = ({
+	color,
+	onSelect,
+	onCancel,
+}: PromotionPickerProps) => {
+	return (
+		<div
+			className="promotion-picker cg-wrap"
+			onClick={(e) => {
+				e.stopPropagation();
+				onCancel();
+			}}
+		>
+			<div className="promotion-picker-pieces">
+				{PROMOTION_PIECES.map(({ symbol, role }) => (
+					<div
+						key={symbol}
+						className="promotion-picker-piece"
+						title={role}
+						onClick={(e) => {
+							e.stopPropagation();
+							onSelect(symbol);
+						}}
+					>
+						{/* chessground styles pieces by their tag name */}
+						{React.createElement('piece', { className: `${role} ${color}` })}
+					</div>
+				))}
+			</div>
+		</div>
+	);
+};
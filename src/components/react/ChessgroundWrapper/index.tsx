@@ -1,11 +1,17 @@
-import { Chess, Move } from 'chess.js';
+import { Chess, Move, PieceSymbol } from 'chess.js';
 import { Chessground as ChessgroundApi } from 'chessground';
 import { Api } from 'chessground/api';
 import { Config } from 'chessground/config';
 import { DrawShape } from 'chessground/draw';
 import * as React from 'react';
-import { useEffect, useRef } from 'react';
-import { playOtherSide, toColor, toDests } from 'src/lib/chess-logic';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+	isPromotion,
+	playOtherSide,
+	toColor,
+	toDests,
+} from 'src/lib/chess-logic';
+import { PromotionPicker } from './PromotionPicker';
 
 export interface ChessgroundProps {
 	api: Api | null;
@@ -33,6 +39,11 @@ export const ChessgroundWrapper = React.memo(
 	}: ChessgroundProps) => {
 		const ref = useRef<HTMLDivElement>(null);
 
+		const [pendingPromotion, setPendingPromotion] = useState<{
+			orig: string;
+			dest: string;
+		} | null>(null);
+
 		//Chessground Init
 		useEffect(() => {
 			if (ref.current && !api) {
@@ -70,6 +81,12 @@ export const ChessgroundWrapper = React.memo(
 					events: {
 						//Hook up the Chessground UI changes to our App State
 						after: (orig, dest, _metadata) => {
+							if (isPromotion(chess, orig, dest)) {
+								//Let the user pick the piece before the move is played
+								setPendingPromotion({ orig, dest });
+								return;
+							}
+
 							const handler = playOtherSide(api, chess);
 
 							addMoveToHistory(handler(orig, dest));
@@ -79,6 +96,41 @@ export const ChessgroundWrapper = React.memo(
 			});
 		}, [addMoveToHistory, api, chess]);
 
+		const onPromotionSelect = useCallback(
+			(piece: PieceSymbol) => {
+				if (!api || !pendingPromotion) return;
+
+				const handler = playOtherSide(api, chess);
+
+				addMoveToHistory(
+					handler(pendingPromotion.orig, pendingPromotion.dest, piece)
+				);
+
+				setPendingPromotion(null);
+			},
+			[addMoveToHistory, api, chess, pendingPromotion]
+		);
+
+		const onPromotionCancel = useCallback(() => {
+			//Put the pawn back on its original square
+			api?.set({
+				fen: chess.fen(),
+				turnColor: toColor(chess),
+				movable: {
+					color: toColor(chess),
+					dests: toDests(chess),
+				},
+				check: chess.isCheck(),
+			});
+
+			setPendingPromotion(null);
+		}, [api, chess]);
+
+		//A new position invalidates a pending promotion
+		useEffect(() => {
+			setPendingPromotion(null);
+		}, [chess]);
+
 		//Sync View Only
 		useEffect(() => {
 			api?.set({ viewOnly: isViewOnly });
@@ -92,8 +144,15 @@ export const ChessgroundWrapper = React.memo(
 		}, [api, shapes]);
 
 		return (
-			<div className={`${boardColor}-board height-width-100 table`}>
+			<div className={`${boardColor}-board height-width-100 table relative`}>
 				<div ref={ref} className={`height-width-100`} />
+				{pendingPromotion && (
+					<PromotionPicker
+						color={toColor(chess)}
+						onSelect={onPromotionSelect}
+						onCancel={onPromotionCancel}
+					/>
+				)}
 			</div>
 		);
 	}
@@ -0,0 +1,133 @@
+import { Move } from 'chess.js';
+import { Cpu } from 'lucide-react';
+import { App, Notice } from 'obsidian';
+import * as React from 'react';
+import { useEffect, useRef, useState } from 'react';
+import {
+	ChessEngine,
+	EngineAnalysis,
+	EngineOptions,
+	formatScore,
+	pvToMoves,
+} from 'src/lib/engine';
+import { getMoveNumber } from 'src/lib/pgn';
+
+const MAX_PV_LENGTH = 12;
+
+const formatPv = (moves: Move[]) =>
+	moves
+		.map((move, i) => {
+			const moveNumber = getMoveNumber(move);
+
+			if (move.color === 'w') return `${moveNumber}. ${move.san}`;
+
+			return i === 0 ? `${moveNumber}... ${move.san}` : move.san;
+		})
+		.join(' ');
+
+interface EnginePanelProps {
+	app: App;
+	options: EngineOptions;
+	fen: string;
+	onPvClick: (moves: Move[]) => void;
+}
+
+export const EnginePanel = ({
+	app,
+	options,
+	fen,
+	onPvClick,
+}: EnginePanelProps) => {
+	const [isRunning, setIsRunning] = useState(false);
+	const [analysis, setAnalysis] = useState<EngineAnalysis | null>(null);
+
+	const engineRef = useRef<ChessEngine | null>(null);
+	// The position may change while the engine is still starting
+	const fenRef = useRef(fen);
+
+	const { engineType, enginePath, engineLines, engineDepth } = options;
+
+	// The engine lives as long as the panel is switched on and the study is mounted
+	useEffect(() => {
+		if (!isRunning) return;
+
+		const engine = new ChessEngine(
+			{ engineType, enginePath, engineLines, engineDepth },
+			setAnalysis,
+			(e) => {
+				new Notice(`The engine stopped: ${e.message}`, 0);
+				setIsRunning(false);
+			}
+		);
+
+		let isCancelled = false;
+
+		engine
+			.start(app)
+			.then(() => {
+				if (isCancelled) return engine.terminate();
+
+				engineRef.current = engine;
+				engine.analyse(fenRef.current);
+			})
+			.catch((e) => {
+				console.log(e);
+				new Notice(`Could not start the engine: ${e.message}`, 0);
+				setIsRunning(false);
+			});
+
+		return () => {
+			isCancelled = true;
+			engineRef.current = null;
+			engine.terminate();
+			setAnalysis(null);
+		};
+	}, [app, engineDepth, engineLines, enginePath, engineType, isRunning]);
+
+	useEffect(() => {
+		fenRef.current = fen;
+		engineRef.current?.analyse(fen);
+	}, [fen]);
+
+	const bestLine = analysis?.lines[0];
+
+	return (
+		<div className="engine-panel">
+			<div className="engine-panel-header">
+				<button
+					className={isRunning ? 'is-active' : ''}
+					title={isRunning ? 'Stop engine' : 'Start engine'}
+					onClick={() => setIsRunning(!isRunning)}
+				>
+					<Cpu strokeWidth={'1px'} />
+				</button>
+				<span className="engine-panel-score">
+					{bestLine ? formatScore(bestLine.score) : '–'}
+				</span>
+				<span className="engine-panel-depth">
+					{isRunning ? `Depth ${analysis?.depth ?? 0}` : 'Engine off'}
+				</span>
+			</div>
+			{isRunning &&
+				analysis?.lines.map((line) => {
+					const moves = pvToMoves(analysis.fen, line.pv);
+
+					return (
+						<div
+							key={line.multiPv}
+							className="engine-panel-line"
+							title="Insert as variant"
+							onClick={() => onPvClick(moves)}
+						>
+							<span className="engine-panel-line-score">
+								{formatScore(line.score)}
+							</span>
+							<span className="engine-panel-line-moves">
+								{formatPv(moves.slice(0, MAX_PV_LENGTH))}
+							</span>
+						</div>
+					);
+				})}
+		</div>
+	);
+};
@@ -0,0 +1,83 @@
+import { App, Notice } from 'obsidian';
+import * as React from 'react';
+import { useEffect, useMemo, useSyncExternalStore } from 'react';
+import { ExplorerStudy, OpeningExplorerIndex } from 'src/lib/explorer';
+import { findChessStudyReferences } from 'src/lib/obsidian';
+import { ChessStudyDataAdapter } from 'src/lib/storage';
+
+interface ExplorerPanelProps {
+	app: App;
+	openingExplorer: OpeningExplorerIndex;
+	dataAdapter: ChessStudyDataAdapter;
+	fen: string;
+	chessStudyId: string;
+}
+
+export const ExplorerPanel = ({
+	app,
+	openingExplorer,
+	dataAdapter,
+	fen,
+	chessStudyId,
+}: ExplorerPanelProps) => {
+	useEffect(() => {
+		openingExplorer.build(dataAdapter);
+	}, [dataAdapter, openingExplorer]);
+
+	const version = useSyncExternalStore(
+		openingExplorer.subscribe,
+		openingExplorer.getVersion
+	);
+
+	const moves = useMemo(
+		() => openingExplorer.getMoves(fen),
+		// The index is mutable, its version tells when it changed
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+		[fen, openingExplorer, version]
+	);
+
+	const openStudy = async (study: ExplorerStudy) => {
+		const [reference] = (await findChessStudyReferences(app)).filter(
+			(reference) => reference.chessStudyId === study.id
+		);
+
+		if (!reference)
+			return new Notice(`${study.id}.json is not referenced in any note.`);
+
+		app.workspace.openLinkText(reference.file.path, '', false);
+	};
+
+	return (
+		<div className="explorer-panel">
+			<div className="explorer-panel-header">Explorer</div>
+			{!moves.length && (
+				<div className="explorer-panel-empty">
+					No study continues from this position
+				</div>
+			)}
+			{moves.map(({ san, count, studies }) => (
+				<div key={san} className="explorer-panel-move">
+					<span className="explorer-panel-san">{san}</span>
+					<span className="explorer-panel-count">{count}</span>
+					<span className="explorer-panel-studies">
+						{studies.map((study) =>
+							study.id === chessStudyId ? (
+								<span key={study.id} className="explorer-panel-study">
+									This study
+								</span>
+							) : (
+								<a
+									key={study.id}
+									className="explorer-panel-study internal-link"
+									onClick={() => openStudy(study)}
+								>
+									{study.title || 'Untitled study'}
+								</a>
+							)
+						)}
+					</span>
+				</div>
+			))}
+		</div>
+	);
+};
@@ -0,0 +1,88 @@
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import * as React from 'react';
+import { useState } from 'react';
+import { EcoClassification, formatClassification } from 'src/lib/eco';
+import { PGN_HEADER_TAGS, RESULT_TOKENS } from 'src/lib/pgn';
+import { ChessStudyHeader } from 'src/lib/storage';
+
+interface HeaderPanelProps {
+	header: ChessStudyHeader;
+	opening: EcoClassification | null;
+	isViewOnly: boolean;
+	onHeaderChange: (field: keyof ChessStudyHeader, value: string | null) => void;
+}
+
+const getSummary = (header: ChessStudyHeader) => {
+	const players =
+		header.white || header.black
+			? `${header.white || '?'} – ${header.black || '?'}`
+			: null;
+
+	return (
+		[header.title, players, header.result, header.event]
+			.filter((part) => part)
+			.join(' · ') || 'Game info'
+	);
+};
+
+export const HeaderPanel = ({
+	header,
+	opening,
+	isViewOnly,
+	onHeaderChange,
+}: HeaderPanelProps) => {
+	const [isOpen, setIsOpen] = useState(false);
+
+	return (
+		<div className="header-panel">
+			<div className="header-panel-toggle" onClick={() => setIsOpen(!isOpen)}>
+				{isOpen ? (
+					<ChevronDown strokeWidth={'1px'} />
+				) : (
+					<ChevronRight strokeWidth={'1px'} />
+				)}
+				<span className="header-panel-summary">{getSummary(header)}</span>
+				{opening && (
+					<span className="header-panel-opening">
+						{formatClassification(opening)}
+					</span>
+				)}
+			</div>
+			{isOpen && (
+				<div className="header-panel-fields">
+					{PGN_HEADER_TAGS.map(([field, tag]) => (
+						<label key={field} className="header-panel-field">
+							<span className="header-panel-tag">{tag}</span>
+							{field === 'result' ? (
+								<select
+									className="dropdown"
+									disabled={isViewOnly}
+									value={header.result ?? '*'}
+									onChange={(e) =>
+										onHeaderChange(
+											'result',
+											e.target.value === '*' ? null : e.target.value
+										)
+									}
+								>
+									{RESULT_TOKENS.map((result) => (
+										<option key={result} value={result}>
+											{result}
+										</option>
+									))}
+								</select>
+							) : (
+								<input
+									type="text"
+									disabled={isViewOnly}
+									value={header[field] ?? ''}
+									onChange={(e) => onHeaderChange(field, e.target.value || null)}
+								/>
+							)}
+						</label>
+					))}
+				</div>
+			)}
+		</div>
+	);
+};
@@ -1,12 +1,35 @@
-import { ArrowLeft, ArrowRight, Copy, Save, Undo2 } from 'lucide-react';
+import {
+	ArrowLeft,
+	ArrowRight,
+	BookPlus,
+	Copy,
+	Delete,
+	FileDown,
+	GraduationCap,
+	ImagePlus,
+	LayoutGrid,
+	Redo2,
+	Save,
+	Undo2,
+} from 'lucide-react';
 import * as React from 'react';
 
 export interface ControlActions {
 	onUndoButtonClick: () => void;
+	onRedoButtonClick: () => void;
+	onDeleteButtonClick: () => void;
+	canUndo: boolean;
+	canRedo: boolean;
 	onBackButtonClick: () => void;
 	onForwardButtonClick: () => void;
 	onSaveButtonClick: () => void;
 	onCopyButtonClick: () => void;
+	onExportButtonClick: () => void;
+	onTrainingButtonClick: (event: MouseEvent) => void;
+	onBoardEditorButtonClick: () => void;
+	onAddChapterButtonClick: (event: MouseEvent) => void;
+	onDiagramButtonClick: () => void;
+	isDirty: boolean;
 }
 
 export const Controls = (props: ControlActions) => {
@@ -19,17 +42,66 @@ export const Controls = (props: ControlActions) => {
 				<button onClick={() => props.onForwardButtonClick()}>
 					<ArrowRight />
 				</button>
-				<button onClick={() => props.onSaveButtonClick()}>
+				<button
+					className={props.isDirty ? 'unsaved' : ''}
+					title={props.isDirty ? 'Unsaved changes' : 'Saved'}
+					onClick={() => props.onSaveButtonClick()}
+				>
 					<Save strokeWidth={'1px'} />
+					{props.isDirty && <span className="unsaved-indicator" />}
 				</button>
 			</div>
 			<div className="button-section">
 				<button onClick={() => props.onCopyButtonClick()}>
 					<Copy strokeWidth={'1px'} />
 				</button>
-				<button onClick={() => props.onUndoButtonClick()}>
+				<button onClick={() => props.onExportButtonClick()}>
+					<FileDown strokeWidth={'1px'} />
+				</button>
+				<button
+					title="Train"
+					onClick={(e) => props.onTrainingButtonClick(e.nativeEvent)}
+				>
+					<GraduationCap strokeWidth={'1px'} />
+				</button>
+				<button
+					title="New study from this position"
+					onClick={() => props.onBoardEditorButtonClick()}
+				>
+					<LayoutGrid strokeWidth={'1px'} />
+				</button>
+				<button
+					title="Add chapter"
+					onClick={(e) => props.onAddChapterButtonClick(e.nativeEvent)}
+				>
+					<BookPlus strokeWidth={'1px'} />
+				</button>
+				<button
+					title="Insert diagram into the note"
+					onClick={() => props.onDiagramButtonClick()}
+				>
+					<ImagePlus strokeWidth={'1px'} />
+				</button>
+				<button
+					title="Undo"
+					disabled={!props.canUndo}
+					onClick={() => props.onUndoButtonClick()}
+				>
 					<Undo2 />
 				</button>
+				<button
+					title="Redo"
+					disabled={!props.canRedo}
+					onClick={() => props.onRedoButtonClick()}
+				>
+					<Redo2 />
+				</button>
+				<button
+					title="Delete last move"
+					onClick={() => props.onDeleteButtonClick()}
+				>
+					<Delete strokeWidth={'1px'} />
+				</button>
 			</div>
 		</div>
 	);
@@ -1,13 +1,18 @@
 import * as React from 'react';
+import { nagsToText } from 'src/lib/nag';
 
 export const MoveItem = ({
 	isCurrentMove,
 	san,
+	nags = [],
 	onMoveItemClick,
+	onMoveItemContextMenu = () => {},
 }: {
 	isCurrentMove: boolean;
 	san: string;
+	nags?: number[];
 	onMoveItemClick: () => void;
+	onMoveItemContextMenu?: (event: MouseEvent) => void;
 }) => {
 	const ref = React.useRef<HTMLParagraphElement>(null);
 
@@ -29,8 +34,14 @@ export const MoveItem = ({
 				e.stopPropagation();
 				onMoveItemClick();
 			}}
+			onContextMenu={(e) => {
+				e.preventDefault();
+				e.stopPropagation();
+				onMoveItemContextMenu(e.nativeEvent);
+			}}
 		>
 			{san}
+			{!!nags.length && <span className="move-nags">{nagsToText(nags)}</span>}
 		</p>
 	);
 };
@@ -38,12 +49,16 @@ export const MoveItem = ({
 export const VariantMoveItem = ({
 	isCurrentMove,
 	san,
+	nags = [],
 	onMoveItemClick,
+	onMoveItemContextMenu = () => {},
 	moveIndicator = null,
 }: {
 	isCurrentMove: boolean;
 	san: string;
+	nags?: number[];
 	onMoveItemClick: () => void;
+	onMoveItemContextMenu?: (event: MouseEvent) => void;
 	moveIndicator?: string | null;
 }) => {
 	const ref = React.useRef<HTMLDivElement>(null);
@@ -65,10 +80,16 @@ export const VariantMoveItem = ({
 				e.stopPropagation();
 				onMoveItemClick();
 			}}
+			onContextMenu={(e) => {
+				e.preventDefault();
+				e.stopPropagation();
+				onMoveItemContextMenu(e.nativeEvent);
+			}}
 			ref={ref}
 		>
 			<span className={'variant-move-indicator'}>{moveIndicator}</span>
 			{san}
+			{!!nags.length && <span className="move-nags">{nagsToText(nags)}</span>}
 		</div>
 	);
 };
@@ -0,0 +1,49 @@
+import * as React from 'react';
+import { NAG_DEFINITIONS, NagGroup, getNagDefinition } from 'src/lib/nag';
+
+const NAG_GROUP_LABELS: Record<NagGroup, string> = {
+	move: 'Move',
+	position: 'Position',
+};
+
+export const NagToolbar = ({
+	nags,
+	onNagSelect,
+}: {
+	nags: number[] | null;
+	onNagSelect: (nag: number) => void;
+}) => {
+	return (
+		<div className="button-section nag-section">
+			{(Object.keys(NAG_GROUP_LABELS) as NagGroup[]).map((group) => {
+				const selectedNag = nags?.find(
+					(nag) => getNagDefinition(nag)?.group === group
+				);
+
+				return (
+					<select
+						key={group}
+						className="dropdown"
+						title={`${NAG_GROUP_LABELS[group]} annotation`}
+						disabled={!nags}
+						value={selectedNag ?? ''}
+						onChange={(e) =>
+							onNagSelect(
+								e.target.value ? Number(e.target.value) : (selectedNag as number)
+							)
+						}
+					>
+						<option value="">{NAG_GROUP_LABELS[group]}</option>
+						{NAG_DEFINITIONS.filter((definition) => definition.group === group).map(
+							({ nag, symbol, description }) => (
+								<option key={nag} value={nag}>
+									{`${symbol}  ${description}`}
+								</option>
+							)
+						)}
+					</select>
+				);
+			})}
+		</div>
+	);
+};
@@ -1,8 +1,10 @@
 import * as React from 'react';
 import { useMemo } from 'react';
+import { getMoveNumber } from 'src/lib/pgn';
 import { ChessStudyMove } from 'src/lib/storage';
 import { Controls } from './Controls';
 import { MoveItem, VariantMoveItem } from './MoveItems';
+import { NagToolbar } from './NagToolbar';
 
 const chunkArray = <T,>(array: T[], chunkSize: number, offsetByOne = false) => {
 	return array.reduce((resultArray, item, index) => {
@@ -42,26 +44,106 @@ export const VariantsContainer = ({
 	return <div className="variants-container">{children}</div>;
 };
 
+const getMoveIndicator = (move: ChessStudyMove, isInterrupted: boolean) => {
+	const moveNumber = getMoveNumber(move);
+
+	if (move.color === 'w') return `${moveNumber}. `;
+
+	return isInterrupted ? `${moveNumber}... ` : null;
+};
+
+/**
+ * Renders a variant with its nested variants in parentheses, PGN style.
+ */
+const VariantLine = ({
+	moves,
+	currentMoveId,
+	onMoveItemClick,
+	onMoveItemContextMenu,
+}: {
+	moves: ChessStudyMove[];
+	currentMoveId: string | null;
+	onMoveItemClick: (moveId: string) => void;
+	onMoveItemContextMenu: (moveId: string, event: MouseEvent) => void;
+}) => {
+	const renderNestedVariants = (move: ChessStudyMove | undefined) =>
+		move?.variants.map((variant) => (
+			<React.Fragment key={variant.variantId}>
+				<span className="variant-parenthesis">(</span>
+				<VariantLine
+					moves={variant.moves}
+					currentMoveId={currentMoveId}
+					onMoveItemClick={onMoveItemClick}
+					onMoveItemContextMenu={onMoveItemContextMenu}
+				/>
+				<span className="variant-parenthesis">)</span>
+			</React.Fragment>
+		));
+
+	return (
+		<>
+			{moves.map((move, i) => (
+				<React.Fragment key={move.moveId}>
+					<VariantMoveItem
+						isCurrentMove={move.moveId === currentMoveId}
+						san={move.san}
+						nags={move.nags}
+						onMoveItemClick={() => onMoveItemClick(move.moveId)}
+						onMoveItemContextMenu={(event) =>
+							onMoveItemContextMenu(move.moveId, event)
+						}
+						moveIndicator={getMoveIndicator(
+							move,
+							i === 0 || !!moves[i - 2]?.variants.length
+						)}
+					/>
+					{/* Variants of the previous move are alternatives to this move */}
+					{i > 0 && renderNestedVariants(moves[i - 1])}
+					{i === moves.length - 1 && renderNestedVariants(move)}
+				</React.Fragment>
+			))}
+		</>
+	);
+};
+
 interface PgnViewerProps {
 	history: ChessStudyMove[];
+	result: string | null;
 	currentMoveId: string | null;
+	currentMoveNags: number[] | null;
+	onNagSelect: (nag: number) => void;
 	firstPlayer: string;
 	initialMoveNumber: number;
 	onMoveItemClick: (moveId: string) => void;
+	onMoveItemContextMenu: (moveId: string, event: MouseEvent) => void;
 	onUndoButtonClick: () => void;
+	onRedoButtonClick: () => void;
+	onDeleteButtonClick: () => void;
+	canUndo: boolean;
+	canRedo: boolean;
 	onBackButtonClick: () => void;
 	onForwardButtonClick: () => void;
 	onSaveButtonClick: () => void;
 	onCopyButtonClick: () => void;
+	onExportButtonClick: () => void;
+	onTrainingButtonClick: (event: MouseEvent) => void;
+	onBoardEditorButtonClick: () => void;
+	onAddChapterButtonClick: (event: MouseEvent) => void;
+	onDiagramButtonClick: () => void;
+	isDirty: boolean;
 }
 
 export const PgnViewer = React.memo((props: PgnViewerProps) => {
 	const {
 		history,
+		result,
 		currentMoveId,
+		currentMoveNags,
+		onNagSelect,
 		firstPlayer,
 		initialMoveNumber,
 		onMoveItemClick,
+		onMoveItemContextMenu,
 		...controlActions
 	} = props;
 
@@ -91,111 +173,52 @@ export const PgnViewer = React.memo((props: PgnViewerProps) => {
 								)}
 								<MoveItem
 									san={wMove.san}
+									nags={wMove.nags}
 									isCurrentMove={wMove.moveId === currentMoveId}
 									onMoveItemClick={() => onMoveItemClick(wMove.moveId)}
+									onMoveItemContextMenu={(event) =>
+										onMoveItemContextMenu(wMove.moveId, event)
+									}
 								/>
 								{bMove && (
 									<MoveItem
 										san={bMove.san}
+										nags={bMove.nags}
 										isCurrentMove={bMove.moveId === currentMoveId}
 										onMoveItemClick={() => onMoveItemClick(bMove.moveId)}
+										onMoveItemContextMenu={(event) =>
+											onMoveItemContextMenu(bMove.moveId, event)
+										}
 									/>
 								)}
 								{!!wMove.variants.concat(bMove?.variants || []).length && (
 									<VariantsContainer>
-										{!!wMove.variants.length && (
-											<VariantContainer>
-												{wMove.variants.map((variant) => {
-													return (
-														<VariantMoveItemContainer key={variant.variantId}>
-															{chunkArray(variant.moves, 2).map((pair, wMoveVarianti) => {
-																const [bMove, wMove] = pair;
-
-																return (
-																	<React.Fragment
-																		key={bMove.san + wMove?.san + currentMoveIndex}
-																	>
-																		<VariantMoveItem
-																			isCurrentMove={bMove.moveId === currentMoveId}
-																			san={bMove.san}
-																			onMoveItemClick={() => onMoveItemClick(bMove.moveId)}
-																			moveIndicator={
-																				(wMoveVarianti === 0 &&
-																					(firstPlayer === 'w' || currentMoveIndex > 0) &&
-																					`${
-																						currentMoveIndex + initialMoveNumber + wMoveVarianti
-																					}... `) ||
-																				(firstPlayer === 'b' &&
-																					currentMoveIndex === 0 &&
-																					`${
-																						currentMoveIndex + initialMoveNumber + wMoveVarianti
-																					}. `) ||
-																				null
-																			}
-																		/>
-																		{wMove && (
-																			<VariantMoveItem
-																				isCurrentMove={wMove.moveId === currentMoveId}
-																				san={wMove.san}
-																				onMoveItemClick={() => onMoveItemClick(wMove.moveId)}
-																				moveIndicator={
-																					((firstPlayer === 'w' || currentMoveIndex > 0) &&
-																						`${
-																							currentMoveIndex + initialMoveNumber + 1 + wMoveVarianti
-																						}. `) ||
-																					null
-																				}
-																			/>
-																		)}
-																	</React.Fragment>
-																);
-															})}
-														</VariantMoveItemContainer>
-													);
-												})}
-											</VariantContainer>
-										)}
-										{!!bMove?.variants.length && (
-											<VariantContainer>
-												{bMove.variants.map((variant) => {
-													return (
-														<VariantMoveItemContainer key={variant.variantId}>
-															{chunkArray(variant.moves, 2).map((pair, bMoveVarianti) => {
-																const [wMove, bMove] = pair;
-																return (
-																	<React.Fragment
-																		key={wMove.san + bMove?.san + currentMoveIndex}
-																	>
-																		<VariantMoveItem
-																			isCurrentMove={wMove.moveId === currentMoveId}
-																			san={wMove.san}
-																			onMoveItemClick={() => onMoveItemClick(wMove.moveId)}
-																			moveIndicator={`${
-																				currentMoveIndex + initialMoveNumber + 1 + bMoveVarianti
-																			}. `}
-																		/>
-																		{bMove && (
-																			<VariantMoveItem
-																				isCurrentMove={bMove.moveId === currentMoveId}
-																				san={bMove.san}
-																				onMoveItemClick={() => onMoveItemClick(bMove.moveId)}
-																			/>
-																		)}
-																	</React.Fragment>
-																);
-															})}
-														</VariantMoveItemContainer>
-													);
-												})}
-											</VariantContainer>
+										{[wMove, bMove].map(
+											(move) =>
+												!!move?.variants.length && (
+													<VariantContainer key={move.moveId}>
+														{move.variants.map((variant) => (
+															<VariantMoveItemContainer key={variant.variantId}>
+																<VariantLine
+																	moves={variant.moves}
+																	currentMoveId={currentMoveId}
+																	onMoveItemClick={onMoveItemClick}
+																	onMoveItemContextMenu={onMoveItemContextMenu}
+																/>
+															</VariantMoveItemContainer>
+														))}
+													</VariantContainer>
+												)
 										)}
 									</VariantsContainer>
 								)}
 							</React.Fragment>
 						);
 					})}
+					{result && <p className="move-result center">{result}</p>}
 				</div>
 			</div>
+			<NagToolbar nags={currentMoveNags} onNagSelect={onNagSelect} />
 			<Controls {...controlActions} />
 		</div>
 	);
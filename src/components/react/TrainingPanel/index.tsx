@@ -0,0 +1,72 @@
+import * as React from 'react';
+import { TrainingState } from 'src/lib/training';
+
+interface TrainingPanelProps {
+	training: TrainingState;
+	trainingTries: number;
+	onMissClick: (moveId: string) => void;
+	onStop: () => void;
+}
+
+const getStatus = (
+	{ feedback, tries, isFinished }: TrainingState,
+	trainingTries: number
+) => {
+	if (isFinished) return 'Training finished';
+
+	switch (feedback?.type) {
+		case 'correct':
+			return `${feedback.san} is correct, your move`;
+		case 'wrong': {
+			const triesLeft = trainingTries - tries;
+
+			return `${feedback.san} is not the move, ${triesLeft} ${
+				triesLeft === 1 ? 'try' : 'tries'
+			} left`;
+		}
+		case 'revealed':
+			return `The move was ${feedback.san}, your move`;
+		default:
+			return 'Find the main line move';
+	}
+};
+
+export const TrainingPanel = ({
+	training,
+	trainingTries,
+	onMissClick,
+	onStop,
+}: TrainingPanelProps) => {
+	return (
+		<div className="training-panel">
+			<div className="training-panel-header">
+				<span
+					className={`training-panel-status ${
+						training.feedback?.type === 'wrong' ? 'is-wrong' : ''
+					}`}
+				>
+					{getStatus(training, trainingTries)}
+				</span>
+				<button onClick={() => onStop()}>
+					{training.isFinished ? 'Close' : 'Stop training'}
+				</button>
+			</div>
+			{training.isFinished && (
+				<div className="training-panel-summary">
+					{training.misses.length
+						? `Missed ${training.misses.length} moves:`
+						: 'You found every move!'}
+					{training.misses.map(({ moveId, label }) => (
+						<a
+							key={moveId}
+							className="training-panel-miss"
+							onClick={() => onMissClick(moveId)}
+						>
+							{label}
+						</a>
+					))}
+				</div>
+			)}
+		</div>
+	);
+};
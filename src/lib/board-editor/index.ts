@@ -0,0 +1,144 @@
+import { Chess, Square, validateFen } from 'chess.js';
+
+export type CastlingRight = 'K' | 'Q' | 'k' | 'q';
+
+export interface EditorPosition {
+	// Piece placement, the first FEN field
+	placement: string;
+	turn: 'w' | 'b';
+	castling: CastlingRight[];
+	enPassant: Square | null;
+}
+
+export const CASTLING_RIGHTS: CastlingRight[] = ['K', 'Q', 'k', 'q'];
+
+// Squares of the king and rook each castling right depends on
+const CASTLING_SQUARES: Record<CastlingRight, [Square, Square]> = {
+	K: ['e1', 'h1'],
+	Q: ['e1', 'a1'],
+	k: ['e8', 'h8'],
+	q: ['e8', 'a8'],
+};
+
+const FILES = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+
+export const EMPTY_PLACEMENT = '8/8/8/8/8/8/8/8';
+
+/**
+ * Expands the piece placement into a map from square to FEN piece letter.
+ */
+const readPlacement = (placement: string) => {
+	const pieces = new Map<string, string>();
+
+	placement.split('/').forEach((row, i) => {
+		let file = 0;
+
+		for (const char of row) {
+			if (/\d/.test(char)) {
+				file += parseInt(char, 10);
+			} else {
+				pieces.set(`${FILES[file]}${8 - i}`, char);
+				file++;
+			}
+		}
+	});
+
+	return pieces;
+};
+
+export const parsePosition = (fen: string): EditorPosition => {
+	const [placement, turn, castling, enPassant] = fen.trim().split(/\s+/);
+
+	return {
+		placement,
+		turn: turn === 'b' ? 'b' : 'w',
+		castling: CASTLING_RIGHTS.filter((right) => castling?.includes(right)),
+		enPassant: enPassant && enPassant !== '-' ? (enPassant as Square) : null,
+	};
+};
+
+export const positionToFen = ({
+	placement,
+	turn,
+	castling,
+	enPassant,
+}: EditorPosition) =>
+	`${placement} ${turn} ${castling.join('') || '-'} ${enPassant ?? '-'} 0 1`;
+
+/**
+ * Lists the squares a pawn could have skipped with a double step on the last move.
+ */
+export const getEnPassantSquares = (
+	placement: string,
+	turn: 'w' | 'b'
+): Square[] => {
+	const pieces = readPlacement(placement);
+
+	// The opponent of the side to move made the double step
+	const [pawn, pawnRank, targetRank, startRank] =
+		turn === 'w' ? ['p', 5, 6, 7] : ['P', 4, 3, 2];
+
+	return FILES.filter(
+		(file) =>
+			pieces.get(`${file}${pawnRank}`) === pawn &&
+			!pieces.has(`${file}${targetRank}`) &&
+			!pieces.has(`${file}${startRank}`)
+	).map((file) => `${file}${targetRank}` as Square);
+};
+
+/**
+ * Checks that a position could occur in a game, returns the problem or null.
+ */
+export const validatePosition = (position: EditorPosition): string | null => {
+	const fen = positionToFen(position);
+
+	const { ok, error } = validateFen(fen);
+
+	if (!ok) return error ?? 'Invalid FEN';
+
+	const pieces = readPlacement(position.placement);
+
+	for (const [square, piece] of pieces) {
+		if (/[pP]/.test(piece) && /[18]/.test(square[1])) {
+			return `There is a pawn on ${square}, pawns can not stand on the first or last rank.`;
+		}
+	}
+
+	for (const right of position.castling) {
+		const [kingSquare, rookSquare] = CASTLING_SQUARES[right];
+		const isWhite = right === right.toUpperCase();
+
+		if (
+			pieces.get(kingSquare) !== (isWhite ? 'K' : 'k') ||
+			pieces.get(rookSquare) !== (isWhite ? 'R' : 'r')
+		) {
+			return `${isWhite ? 'White' : 'Black'} can only castle ${
+				right.toLowerCase() === 'k' ? 'kingside' : 'queenside'
+			} with the king on ${kingSquare} and the rook on ${rookSquare}.`;
+		}
+	}
+
+	if (
+		position.enPassant &&
+		!getEnPassantSquares(position.placement, position.turn).includes(
+			position.enPassant
+		)
+	) {
+		return `${position.enPassant} is not a valid en passant square, no pawn can have passed it with a double step.`;
+	}
+
+	const chess = new Chess(fen);
+	const opponent = position.turn === 'w' ? 'b' : 'w';
+
+	const opponentKing = [...pieces.entries()].find(
+		([, piece]) => piece === (opponent === 'w' ? 'K' : 'k')
+	)?.[0] as Square;
+
+	if (chess.isAttacked(opponentKing, position.turn)) {
+		return `${
+			opponent === 'w' ? 'White' : 'Black'
+		} is in check although it is not their move.`;
+	}
+
+	return null;
+};
@@ -1,4 +1,4 @@
-import { Chess, QUEEN, SQUARES, Square } from 'chess.js';
+import { Chess, PieceSymbol, QUEEN, SQUARES, Square } from 'chess.js';
 import { Api } from 'chessground/api';
 import { Config } from 'chessground/config';
 
@@ -19,9 +19,15 @@ export function toDests(chess: Chess): Map<Square, Square[]> {
 	return dests;
 }
 
+export function isPromotion(chess: Chess, orig: string, dest: string) {
+	return chess
+		.moves({ square: orig as Square, verbose: true })
+		.some((move) => move.to === dest && !!move.promotion);
+}
+
 export function playOtherSide(cg: Api, chess: Chess) {
-	return (orig: string, dest: string) => {
-		const move = chess.move({ from: orig, to: dest, promotion: QUEEN });
+	return (orig: string, dest: string, promotion: PieceSymbol = QUEEN) => {
+		const move = chess.move({ from: orig, to: dest, promotion });
 
 		const commonTurnProperties: Partial<Config> = {
 			turnColor: toColor(chess),
@@ -33,7 +39,7 @@ export function playOtherSide(cg: Api, chess: Chess) {
 		};
 
 		if (move.flags === 'e' || move.promotion) {
-			//Handle En Passant && Promote to Queen by default
+			//Handle En Passant && Promotion
 			cg.set({
 				fen: chess.fen(),
 				...commonTurnProperties,
@@ -0,0 +1,227 @@
+import { DrawShape } from 'chessground/draw';
+import { ChessStudyPluginSettings } from 'src/components/obsidian/SettingsTab';
+import { PIECE_SVGS } from './pieces';
+
+export type DiagramFormat = 'svg' | 'png';
+
+export interface DiagramOptions {
+	orientation: ChessStudyPluginSettings['boardOrientation'];
+	boardColor: ChessStudyPluginSettings['boardColor'];
+	lastMove?: [string, string] | null;
+	shapes?: DrawShape[];
+	coordinates?: boolean;
+}
+
+export interface Diagram {
+	svg: string;
+	// File name without extension
+	name: string;
+}
+
+// Width and height of the diagram in pixels, the board itself is drawn 8x8 units
+export const DIAGRAM_SIZE = 400;
+
+// Same colors as the boards rendered by chessground
+const BOARD_COLORS: Record<DiagramOptions['boardColor'], [string, string]> = {
+	green: ['#ffffdd', '#86a666'],
+	brown: ['#f0d9b5', '#c0ae91'],
+};
+
+const LAST_MOVE_COLOR = 'rgba(155, 199, 0, 0.41)';
+
+// The default brushes of chessground
+const BRUSH_COLORS: Record<string, string> = {
+	green: '#15781B',
+	red: '#882020',
+	blue: '#003088',
+	yellow: '#e68f00',
+};
+
+const FILES = 'abcdefgh';
+
+/**
+ * Position of a square on the diagram, x and y of its top left corner.
+ */
+const squareToPoint = (
+	square: string,
+	orientation: DiagramOptions['orientation']
+): [number, number] => {
+	const file = FILES.indexOf(square[0]);
+	const rank = Number(square[1]) - 1;
+
+	return orientation === 'white' ? [file, 7 - rank] : [7 - file, rank];
+};
+
+const renderSquares = ({ boardColor }: DiagramOptions) => {
+	const [light, dark] = BOARD_COLORS[boardColor];
+
+	const squares = [`<rect width="8" height="8" fill="${light}"/>`];
+
+	for (let y = 0; y < 8; y++) {
+		for (let x = (y + 1) % 2; x < 8; x += 2) {
+			squares.push(
+				`<rect x="${x}" y="${y}" width="1" height="1" fill="${dark}"/>`
+			);
+		}
+	}
+
+	return squares.join('');
+};
+
+const renderLastMove = ({ lastMove, orientation }: DiagramOptions) =>
+	(lastMove ?? [])
+		.map((square) => {
+			const [x, y] = squareToPoint(square, orientation);
+
+			return `<rect x="${x}" y="${y}" width="1" height="1" fill="${LAST_MOVE_COLOR}"/>`;
+		})
+		.join('');
+
+const renderCoordinates = ({ boardColor, orientation }: DiagramOptions) => {
+	const [light, dark] = BOARD_COLORS[boardColor];
+
+	const coordinates: string[] = [];
+
+	for (let i = 0; i < 8; i++) {
+		const file = orientation === 'white' ? FILES[i] : FILES[7 - i];
+		const rank = orientation === 'white' ? 8 - i : i + 1;
+
+		// Coordinates take the color of the opposite square
+		const fileColor = i % 2 ? dark : light;
+		const rankColor = i % 2 ? light : dark;
+
+		coordinates.push(
+			`<text x="${
+				i + 0.95
+			}" y="7.95" text-anchor="end" fill="${fileColor}">${file}</text>`,
+			`<text x="0.05" y="${i + 0.25}" fill="${rankColor}">${rank}</text>`
+		);
+	}
+
+	return `<g font-family="sans-serif" font-size="0.22" font-weight="bold">${coordinates.join(
+		''
+	)}</g>`;
+};
+
+const renderPieces = (fen: string, { orientation }: DiagramOptions) => {
+	const [placement] = fen.split(' ');
+
+	const pieces: string[] = [];
+
+	placement.split('/').forEach((row, i) => {
+		let file = 0;
+
+		for (const char of row) {
+			if (/\d/.test(char)) {
+				file += Number(char);
+				continue;
+			}
+
+			const [x, y] = squareToPoint(`${FILES[file]}${8 - i}`, orientation);
+
+			if (PIECE_SVGS[char]) {
+				pieces.push(
+					`<svg x="${x}" y="${y}" width="1" height="1" viewBox="0 0 45 45">${PIECE_SVGS[char]}</svg>`
+				);
+			}
+
+			file++;
+		}
+	});
+
+	return pieces.join('');
+};
+
+const renderShape = (
+	{ orig, dest, brush }: DrawShape,
+	{ orientation }: DiagramOptions
+) => {
+	const color = BRUSH_COLORS[brush] ?? BRUSH_COLORS.green;
+	const [x1, y1] = squareToPoint(orig, orientation).map((n) => n + 0.5);
+
+	if (!dest || dest === orig) {
+		return `<circle cx="${x1}" cy="${y1}" r="${
+			0.5 - 2 / 64
+		}" fill="none" stroke="${color}" stroke-width="${4 / 64}"/>`;
+	}
+
+	const [x2, y2] = squareToPoint(dest, orientation).map((n) => n + 0.5);
+
+	// The line stops short of the center, so the arrowhead ends there
+	const angle = Math.atan2(y2 - y1, x2 - x1);
+	const margin = 10 / 64;
+
+	return `<line x1="${x1}" y1="${y1}" x2="${
+		x2 - Math.cos(angle) * margin
+	}" y2="${y2 - Math.sin(angle) * margin}" stroke="${color}" stroke-width="${
+		10 / 64
+	}" stroke-linecap="round" marker-end="url(#arrowhead-${
+		brush in BRUSH_COLORS ? brush : 'green'
+	})"/>`;
+};
+
+const renderMarkers = () =>
+	Object.entries(BRUSH_COLORS)
+		.map(
+			([brush, color]) =>
+				`<marker id="arrowhead-${brush}" orient="auto" markerWidth="4" markerHeight="8" refX="2.05" refY="2.01"><path d="M0,0 V4 L3,2 Z" fill="${color}"/></marker>`
+		)
+		.join('');
+
+/**
+ * Renders the position and its annotations as a standalone SVG document,
+ * the pieces are embedded so it can be used outside of the plugin.
+ */
+export const renderDiagram = (fen: string, options: DiagramOptions) => {
+	const { shapes = [], coordinates = true } = options;
+
+	return [
+		`<svg xmlns="http://www.w3.org/2000/svg" width="${DIAGRAM_SIZE}" height="${DIAGRAM_SIZE}" viewBox="0 0 8 8">`,
+		`<defs>${renderMarkers()}</defs>`,
+		renderSquares(options),
+		renderLastMove(options),
+		coordinates ? renderCoordinates(options) : '',
+		renderPieces(fen, options),
+		shapes.map((shape) => renderShape(shape, options)).join(''),
+		'</svg>',
+	].join('');
+};
+
+/**
+ * Names the diagram after the study and the move leading to the position, e.g. "Study 12... Nf6".
+ */
+export const getDiagramName = (title: string, fen: string, san?: string) => {
+	if (!san) return title;
+
+	const [, turn, , , , fullmove] = fen.split(' ');
+
+	return turn === 'b'
+		? `${title} ${fullmove}. ${san}`
+		: `${title} ${Number(fullmove) - 1}... ${san}`;
+};
+
+export const toDataUri = (svg: string) =>
+	`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+/**
+ * Rasterizes the diagram through a canvas, for places that do not display SVGs.
+ */
+export const diagramToPng = (svg: string): Promise<ArrayBuffer> =>
+	new Promise((resolve, reject) => {
+		const image = new Image();
+
+		image.onload = () => {
+			const canvas = document.createElement('canvas');
+			canvas.width = DIAGRAM_SIZE;
+			canvas.height = DIAGRAM_SIZE;
+			canvas.getContext('2d')?.drawImage(image, 0, 0);
+
+			canvas.toBlob((blob) => {
+				if (!blob) return reject(Error('The diagram could not be converted.'));
+
+				blob.arrayBuffer().then(resolve, reject);
+			}, 'image/png');
+		};
+		image.onerror = () => reject(Error('The diagram could not be converted.'));
+		image.src = toDataUri(svg);
+	});
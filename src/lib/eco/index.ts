@@ -0,0 +1,108 @@
+import { Chess } from 'chess.js';
+import { Draft } from 'immer';
+import { GameActions, GameState } from 'src/components/react/ChessStudy';
+import { normalizeFen } from 'src/lib/explorer';
+import { ChessStudyMove } from 'src/lib/storage';
+import { getActiveChapter } from 'src/lib/ui-state';
+import { ECO_OPENINGS } from './openings';
+
+export interface EcoClassification {
+	eco: string;
+	opening: string;
+	variation: string | null;
+}
+
+// Actions that can change the main line
+const MAIN_LINE_ACTIONS: GameActions['type'][] = [
+	'ADD_MOVE_TO_HISTORY',
+	'ADD_LINE_TO_HISTORY',
+	'REMOVE_LAST_MOVE_FROM_HISTORY',
+	'PROMOTE_VARIANT',
+	'DELETE_FROM_MOVE',
+	'DELETE_VARIANT',
+];
+
+let classifications: Map<string, EcoClassification> | null = null;
+
+/**
+ * Plays through the bundled table once, positions are matched by FEN so
+ * transpositions are classified as well.
+ */
+const getClassifications = () => {
+	if (classifications) return classifications;
+
+	const positions = new Map<string, EcoClassification>();
+
+	ECO_OPENINGS.forEach(([eco, name, pgn]) => {
+		const chess = new Chess();
+
+		pgn
+			.replace(/\d+\.+/g, ' ')
+			.split(/\s+/)
+			.filter((san) => san.length)
+			.forEach((san) => chess.move(san));
+
+		const [opening, variation] = name.split(': ');
+
+		positions.set(normalizeFen(chess.fen()), {
+			eco,
+			opening,
+			variation: variation ?? null,
+		});
+	});
+
+	classifications = positions;
+
+	return classifications;
+};
+
+export const classifyPosition = (fen: string): EcoClassification | null =>
+	getClassifications().get(normalizeFen(fen)) ?? null;
+
+/**
+ * Returns the deepest classified position of a line, positions after
+ * the line left the table keep the last classification.
+ */
+export const classifyLine = (
+	moves: (ChessStudyMove | Draft<ChessStudyMove>)[]
+): EcoClassification | null =>
+	moves.reduce<EcoClassification | null>(
+		(classification, move) => classifyPosition(move.after) ?? classification,
+		null
+	);
+
+export const formatClassification = ({
+	eco,
+	opening,
+	variation,
+}: EcoClassification) =>
+	`${eco} ${opening}${variation ? `: ${variation}` : ''}`;
+
+/**
+ * Keeps the ECO code in the chapter header in sync with its main line. A code
+ * that did not come from the classification, like an imported ECO tag, is kept.
+ */
+export const withEcoClassification =
+	(reducer: (draft: Draft<GameState>, action: GameActions) => void) =>
+	(draft: Draft<GameState>, action: GameActions) => {
+		if (!MAIN_LINE_ACTIONS.includes(action.type)) {
+			reducer(draft, action);
+
+			return draft;
+		}
+
+		const previousEco = classifyLine(getActiveChapter(draft).moves)?.eco;
+
+		reducer(draft, action);
+
+		const { header, moves } = getActiveChapter(draft);
+		const classification = classifyLine(moves);
+
+		if (header.eco && header.eco !== previousEco) return draft;
+
+		if (classification && header.eco !== classification.eco) {
+			header.eco = classification.eco;
+		}
+
+		return draft;
+	};
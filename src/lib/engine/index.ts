@@ -0,0 +1,338 @@
+import { Chess, Move } from 'chess.js';
+import type { ChildProcessWithoutNullStreams } from 'child_process';
+import { App, Platform } from 'obsidian';
+
+export type EngineType = 'none' | 'script' | 'binary';
+
+export interface EngineScore {
+	type: 'cp' | 'mate';
+	// Always from White's point of view
+	value: number;
+}
+
+export interface EngineLine {
+	multiPv: number;
+	depth: number;
+	score: EngineScore;
+	pv: string[];
+}
+
+export interface EngineAnalysis {
+	fen: string;
+	depth: number;
+	lines: EngineLine[];
+}
+
+export interface EngineOptions {
+	engineType: EngineType;
+	enginePath: string;
+	engineLines: number;
+	engineDepth: number;
+}
+
+export class EngineError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'EngineError';
+	}
+}
+
+/**
+ * A process speaking UCI, one command or output line at a time.
+ */
+interface UciProcess {
+	send: (command: string) => void;
+	terminate: () => void;
+}
+
+const WASM_ENGINE_ERROR =
+	'WebAssembly engines are not supported, use a single file JavaScript (asm.js) build.';
+
+/**
+ * Runs the script in a worker loaded from a blob URL. A WebAssembly build can
+ * not fetch its .wasm file from there, so those are rejected up front.
+ */
+const createScriptProcess = async (
+	app: App,
+	path: string,
+	onLine: (line: string) => void,
+	onError: (error: EngineError) => void
+): Promise<UciProcess> => {
+	if (path.endsWith('.wasm')) throw new EngineError(WASM_ENGINE_ERROR);
+
+	if (!(await app.vault.adapter.exists(path))) {
+		throw new EngineError(`Could not find the engine script ${path}.`);
+	}
+
+	// WebAssembly builds like stockfish.js come with a .wasm file of the same name
+	if (await app.vault.adapter.exists(path.replace(/(\.js)?$/, '.wasm'))) {
+		throw new EngineError(WASM_ENGINE_ERROR);
+	}
+
+	const script = await app.vault.adapter.read(path);
+	const url = URL.createObjectURL(
+		new Blob([script], { type: 'application/javascript' })
+	);
+
+	const worker = new Worker(url);
+
+	worker.onmessage = (event: MessageEvent) => {
+		`${event.data}`.split('\n').forEach(onLine);
+	};
+
+	worker.onerror = (event: ErrorEvent) => {
+		onError(new EngineError(`The engine script failed: ${event.message}`));
+	};
+
+	return {
+		send: (command) => worker.postMessage(command),
+		terminate: () => {
+			worker.terminate();
+			URL.revokeObjectURL(url);
+		},
+	};
+};
+
+/**
+ * Resolves once the binary is running, failures after that are passed to onError.
+ */
+const createBinaryProcess = async (
+	path: string,
+	onLine: (line: string) => void,
+	onError: (error: EngineError) => void
+): Promise<UciProcess> => {
+	if (!Platform.isDesktopApp) {
+		throw new EngineError('Engine binaries are only supported on desktop.');
+	}
+
+	// Required lazily, child_process does not exist on mobile
+	// eslint-disable-next-line @typescript-eslint/no-var-requires
+	const { spawn } = require('child_process') as typeof import('child_process');
+
+	const child: ChildProcessWithoutNullStreams = spawn(path);
+
+	let buffer = '';
+
+	child.stdout.on('data', (data: Buffer) => {
+		const lines = (buffer + data.toString()).split(/\r?\n/);
+		buffer = lines.pop() ?? '';
+		lines.forEach(onLine);
+	});
+
+	return new Promise((resolve, reject) => {
+		let isRunning = false;
+		let isStopped = false;
+
+		const fail = (message: string) => {
+			if (isStopped) return;
+
+			isStopped = true;
+
+			const error = new EngineError(message);
+
+			if (isRunning) return onError(error);
+
+			reject(error);
+		};
+
+		child.on('spawn', () => {
+			isRunning = true;
+
+			resolve({
+				send: (command) => {
+					if (!isStopped) child.stdin.write(`${command}\n`);
+				},
+				terminate: () => {
+					isStopped = true;
+					child.stdin.end('quit\n');
+					child.kill();
+				},
+			});
+		});
+
+		child.on('error', (e) => fail(`Could not run ${path}: ${e.message}`));
+		child.on('exit', (code) =>
+			fail(`The engine exited unexpectedly with code ${code}.`)
+		);
+		// Writing to a process that already died fails with EPIPE
+		child.stdin.on('error', (e) =>
+			fail(`The engine stopped accepting commands: ${e.message}`)
+		);
+	});
+};
+
+const parseInfoLine = (line: string, turn: 'w' | 'b'): EngineLine | null => {
+	const tokens = line.split(/\s+/);
+
+	const valueOf = (key: string) => tokens[tokens.indexOf(key) + 1];
+
+	const scoreIndex = tokens.indexOf('score');
+	const pvIndex = tokens.indexOf('pv');
+
+	if (scoreIndex < 0 || pvIndex < 0) return null;
+
+	const value = parseInt(tokens[scoreIndex + 2], 10);
+
+	return {
+		multiPv: parseInt(valueOf('multipv'), 10) || 1,
+		depth: parseInt(valueOf('depth'), 10) || 0,
+		score: {
+			type: tokens[scoreIndex + 1] === 'mate' ? 'mate' : 'cp',
+			value: turn === 'w' ? value : -value,
+		},
+		pv: tokens.slice(pvIndex + 1).filter((move) => move.length),
+	};
+};
+
+/**
+ * Plays a principal variation in UCI notation, stops at the first illegal move.
+ */
+export const pvToMoves = (fen: string, pv: string[]): Move[] => {
+	const chess = new Chess(fen);
+	const moves: Move[] = [];
+
+	for (const uciMove of pv) {
+		try {
+			moves.push(
+				chess.move({
+					from: uciMove.slice(0, 2),
+					to: uciMove.slice(2, 4),
+					promotion: uciMove.slice(4) || undefined,
+				})
+			);
+		} catch (e) {
+			break;
+		}
+	}
+
+	return moves;
+};
+
+/**
+ * Runs a UCI engine and reports the analysis of one position at a time.
+ */
+export class ChessEngine {
+	options: EngineOptions;
+	process: UciProcess | null = null;
+	analysis: EngineAnalysis | null = null;
+	// A search runs until its bestmove arrives, even after it was stopped
+	isSearching = false;
+	// Position to search once the stopped search has finished
+	pendingFen: string | null = null;
+	onAnalysis: (analysis: EngineAnalysis) => void;
+	// Called when a running engine fails, failures to start reject start() instead
+	onError: (error: EngineError) => void;
+
+	constructor(
+		options: EngineOptions,
+		onAnalysis: (analysis: EngineAnalysis) => void,
+		onError: (error: EngineError) => void
+	) {
+		this.options = options;
+		this.onAnalysis = onAnalysis;
+		this.onError = onError;
+	}
+
+	async start(app: App) {
+		const { engineType, enginePath, engineLines } = this.options;
+
+		if (!enginePath.trim().length) {
+			throw new EngineError(
+				'No engine configured, add one in the Chess Study settings.'
+			);
+		}
+
+		const onLine = (line: string) => this.handleLine(line.trim());
+
+		this.process =
+			engineType === 'binary'
+				? await createBinaryProcess(enginePath, onLine, this.onError)
+				: await createScriptProcess(app, enginePath, onLine, this.onError);
+
+		this.process.send('uci');
+		this.process.send(`setoption name MultiPV value ${engineLines}`);
+		this.process.send('isready');
+	}
+
+	analyse(fen: string) {
+		if (!this.process) return;
+
+		this.analysis = { fen, depth: 0, lines: [] };
+		this.onAnalysis(this.analysis);
+
+		if (this.isSearching) {
+			this.pendingFen = fen;
+			this.process.send('stop');
+			return;
+		}
+
+		this.search(fen);
+	}
+
+	search(fen: string) {
+		if (!this.process) return;
+
+		const { engineDepth } = this.options;
+
+		this.isSearching = true;
+		this.pendingFen = null;
+
+		this.process.send(`position fen ${fen}`);
+		this.process.send(
+			engineDepth > 0 ? `go depth ${engineDepth}` : 'go infinite'
+		);
+	}
+
+	stop() {
+		this.process?.send('stop');
+	}
+
+	terminate() {
+		this.process?.terminate();
+		this.process = null;
+		this.analysis = null;
+		this.isSearching = false;
+		this.pendingFen = null;
+	}
+
+	handleLine(line: string) {
+		if (line.startsWith('bestmove')) {
+			this.isSearching = false;
+
+			if (this.pendingFen) this.search(this.pendingFen);
+
+			return;
+		}
+
+		// Output of a stopped search is dropped until its bestmove arrives
+		if (!this.analysis || this.pendingFen || !line.startsWith('info ')) return;
+
+		const turn = this.analysis.fen.split(' ')[1] === 'b' ? 'b' : 'w';
+		const engineLine = parseInfoLine(line, turn);
+
+		if (!engineLine) return;
+
+		const lines = this.analysis.lines.filter(
+			(existing) => existing.multiPv !== engineLine.multiPv
+		);
+
+		this.analysis = {
+			...this.analysis,
+			depth: Math.max(this.analysis.depth, engineLine.depth),
+			lines: [...lines, engineLine].sort((a, b) => a.multiPv - b.multiPv),
+		};
+
+		this.onAnalysis(this.analysis);
+	}
+}
+
+/**
+ * Formats a score like lichess: +0.35, -1.20 or #-3.
+ */
+export const formatScore = ({ type, value }: EngineScore): string => {
+	if (type === 'mate') return `#${value}`;
+
+	const pawns = (value / 100).toFixed(2);
+
+	return value > 0 ? `+${pawns}` : pawns;
+};
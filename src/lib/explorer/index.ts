@@ -0,0 +1,160 @@
+import {
+	ChessStudyDataAdapter,
+	ChessStudyFileData,
+	ChessStudyMove,
+	getStudyTitle,
+} from 'src/lib/storage';
+
+export interface ExplorerStudy {
+	id: string;
+	title: string | null;
+	moveIds: string[];
+}
+
+export interface ExplorerMove {
+	san: string;
+	count: number;
+	studies: ExplorerStudy[];
+}
+
+interface IndexEntry {
+	positionKey: string;
+	san: string;
+	moveId: string;
+}
+
+/**
+ * Drops the halfmove clock and the fullmove number, so transpositions
+ * reached after a different number of moves share the same key.
+ */
+export const normalizeFen = (fen: string) =>
+	fen.split(' ').slice(0, 4).join(' ');
+
+const collectEntries = (moves: ChessStudyMove[], entries: IndexEntry[]) => {
+	moves.forEach((move) => {
+		// The position before a move is the after FEN of the previous move
+		entries.push({
+			positionKey: normalizeFen(move.before),
+			san: move.san,
+			moveId: move.moveId,
+		});
+
+		move.variants.forEach((variant) => collectEntries(variant.moves, entries));
+	});
+
+	return entries;
+};
+
+/**
+ * Indexes the moves of every stored study by the position they were played from.
+ */
+export class OpeningExplorerIndex {
+	// positionKey -> san -> study id -> move ids
+	positions = new Map<string, Map<string, Map<string, string[]>>>();
+	entries = new Map<string, IndexEntry[]>();
+	titles = new Map<string, string | null>();
+	listeners: (() => void)[] = [];
+	version = 0;
+	building: Promise<void> | null = null;
+
+	/**
+	 * Loads every stored study once, later changes are indexed incrementally.
+	 */
+	build(dataAdapter: ChessStudyDataAdapter) {
+		if (!this.building) {
+			this.building = (async () => {
+				for (const id of await dataAdapter.listFileIds()) {
+					try {
+						this.indexStudy(id, await dataAdapter.loadFile(id));
+					} catch (e) {
+						console.log(e);
+					}
+				}
+			})();
+		}
+
+		return this.building;
+	}
+
+	indexStudy(id: string, data: ChessStudyFileData) {
+		this.removeEntries(id);
+
+		const entries = data.chapters.reduce(
+			(entries, chapter) => collectEntries(chapter.moves, entries),
+			[] as IndexEntry[]
+		);
+
+		entries.forEach(({ positionKey, san, moveId }) => {
+			const moves = this.positions.get(positionKey) ?? new Map();
+			const studies = moves.get(san) ?? new Map();
+
+			studies.set(id, [...(studies.get(id) ?? []), moveId]);
+			moves.set(san, studies);
+			this.positions.set(positionKey, moves);
+		});
+
+		this.entries.set(id, entries);
+		this.titles.set(id, getStudyTitle(data));
+
+		this.notify();
+	}
+
+	removeStudy(id: string) {
+		this.removeEntries(id);
+		this.notify();
+	}
+
+	removeEntries(id: string) {
+		this.entries.get(id)?.forEach(({ positionKey, san }) => {
+			const moves = this.positions.get(positionKey);
+			const studies = moves?.get(san);
+
+			studies?.delete(id);
+
+			if (studies && !studies.size) moves?.delete(san);
+			if (moves && !moves.size) this.positions.delete(positionKey);
+		});
+
+		this.entries.delete(id);
+		this.titles.delete(id);
+	}
+
+	/**
+	 * Lists the moves played from a position across all studies, most played first.
+	 */
+	getMoves(fen: string): ExplorerMove[] {
+		const moves = this.positions.get(normalizeFen(fen));
+
+		if (!moves) return [];
+
+		return [...moves.entries()]
+			.map(([san, studies]) => ({
+				san,
+				count: [...studies.values()].reduce(
+					(count, moveIds) => count + moveIds.length,
+					0
+				),
+				studies: [...studies.entries()].map(([id, moveIds]) => ({
+					id,
+					title: this.titles.get(id) ?? null,
+					moveIds,
+				})),
+			}))
+			.sort((a, b) => b.count - a.count || a.san.localeCompare(b.san));
+	}
+
+	subscribe = (listener: () => void) => {
+		this.listeners.push(listener);
+
+		return () => {
+			this.listeners = this.listeners.filter((l) => l !== listener);
+		};
+	};
+
+	getVersion = () => this.version;
+
+	notify() {
+		this.version++;
+		this.listeners.forEach((listener) => listener());
+	}
+}
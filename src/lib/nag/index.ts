@@ -0,0 +1,75 @@
+export type NagGroup = 'move' | 'position';
+
+export interface NagDefinition {
+	nag: number;
+	symbol: string;
+	description: string;
+	group: NagGroup;
+}
+
+// Numeric Annotation Glyphs as defined in the PGN standard, $1 - $19
+export const NAG_DEFINITIONS: NagDefinition[] = [
+	{ nag: 1, symbol: '!', description: 'Good move', group: 'move' },
+	{ nag: 2, symbol: '?', description: 'Mistake', group: 'move' },
+	{ nag: 3, symbol: '!!', description: 'Brilliant move', group: 'move' },
+	{ nag: 4, symbol: '??', description: 'Blunder', group: 'move' },
+	{ nag: 5, symbol: '!?', description: 'Interesting move', group: 'move' },
+	{ nag: 6, symbol: '?!', description: 'Dubious move', group: 'move' },
+	{ nag: 7, symbol: '□', description: 'Only move', group: 'move' },
+	{ nag: 10, symbol: '=', description: 'Equal position', group: 'position' },
+	{ nag: 13, symbol: '∞', description: 'Unclear position', group: 'position' },
+	{
+		nag: 14,
+		symbol: '⩲',
+		description: 'White is slightly better',
+		group: 'position',
+	},
+	{
+		nag: 15,
+		symbol: '⩱',
+		description: 'Black is slightly better',
+		group: 'position',
+	},
+	{ nag: 16, symbol: '±', description: 'White is better', group: 'position' },
+	{ nag: 17, symbol: '∓', description: 'Black is better', group: 'position' },
+	{ nag: 18, symbol: '+−', description: 'White is winning', group: 'position' },
+	{ nag: 19, symbol: '−+', description: 'Black is winning', group: 'position' },
+];
+
+export const getNagDefinition = (nag: number) =>
+	NAG_DEFINITIONS.find((definition) => definition.nag === nag);
+
+const isMoveNag = (nag: number) => getNagDefinition(nag)?.group === 'move';
+
+/**
+ * Renders NAGs as glyphs, unknown NAGs keep their PGN notation.
+ */
+export const nagsToText = (nags: number[]): string =>
+	nags
+		.map((nag, i) => {
+			const definition = getNagDefinition(nag);
+
+			if (!definition) return ` $${nag}`;
+
+			// Move glyphs stick to the SAN, assessments are separated by a space
+			return definition.group === 'move' && i === 0
+				? definition.symbol
+				: ` ${definition.symbol}`;
+		})
+		.join('');
+
+/**
+ * Toggles a NAG, replacing any other NAG of the same group.
+ */
+export const toggleNag = (nags: number[], nag: number): number[] => {
+	if (nags.includes(nag)) return nags.filter((n) => n !== nag);
+
+	const group = getNagDefinition(nag)?.group;
+
+	const remaining = nags.filter(
+		(n) => !group || getNagDefinition(n)?.group !== group
+	);
+
+	// Keep move glyphs in front of position assessments
+	return [...remaining, nag].sort((a, b) => +isMoveNag(b) - +isMoveNag(a));
+};
@@ -1,8 +1,13 @@
-import { parseYaml } from 'obsidian';
+import { App, Editor, TFile, normalizePath, parseYaml } from 'obsidian';
 import { ChessStudyPluginSettings } from 'src/components/obsidian/SettingsTab';
+import { Diagram, diagramToPng } from 'src/lib/diagram';
+import { ChessStudyDataAdapter, ChessStudyHeader } from 'src/lib/storage';
 
 type ChessStudyAppConfig = ChessStudyPluginSettings & {
 	chessStudyId: string;
+	// Game of an inline study, kept in the code block itself
+	pgn?: string | null;
+	fen?: string | null;
 };
 
 export const parseUserConfig = (
@@ -15,11 +20,325 @@ export const parseUserConfig = (
 	};
 
 	try {
-		return {
+		const { engineType, enginePath, engineLines, engineDepth } = settings;
+
+		// Engines run programs, so notes can not choose them
+		const config: ChessStudyAppConfig = {
 			...chessStudyConfig,
 			...parseYaml(content),
+			engineType,
+			enginePath,
+			engineLines,
+			engineDepth,
 		};
+
+		// Saving an inline study renders its code block anew and resets the
+		// board, so it is only saved on request
+		if (getInlineChessString(config) !== null) config.autosave = false;
+
+		return config;
 	} catch (e) {
 		throw Error('Something went wrong during parsing. :(');
 	}
 };
+
+/**
+ * Returns the PGN or FEN of an inline study, or null if the study is stored
+ * in the plugin storage. An empty pgn key starts a new game.
+ */
+export const getInlineChessString = (config: ChessStudyAppConfig) => {
+	if (config.chessStudyId.trim().length) return null;
+
+	if (!('pgn' in config) && !('fen' in config)) return null;
+
+	return String(config.pgn ?? config.fen ?? '');
+};
+
+/**
+ * Replaces the PGN or FEN of an inline code block source with the PGN,
+ * written as a YAML block scalar below the other keys.
+ */
+export const setInlinePgn = (source: string, pgn: string) => {
+	const lines: string[] = [];
+
+	let isReplacedValue = false;
+
+	for (const line of source.split('\n')) {
+		// Block scalars continue on indented or empty lines
+		if (isReplacedValue && (/^\s/.test(line) || !line.trim())) continue;
+
+		isReplacedValue = /^(pgn|fen)\s*:/.test(line);
+
+		if (!isReplacedValue) lines.push(line);
+	}
+
+	while (lines.length && !lines[lines.length - 1].trim()) lines.pop();
+
+	return [
+		...lines,
+		'pgn: |',
+		...pgn
+			.trim()
+			.split('\n')
+			.map((line) => (line.trim() ? `  ${line}` : '')),
+	].join('\n');
+};
+
+export const getInlineChessStudyCodeBlock = (pgn: string) =>
+	`\`\`\`chessStudy\n${setInlinePgn('', pgn)}\n\`\`\``;
+
+/**
+ * Returns the source of the chessStudy code block the cursor is placed in.
+ */
+export const getChessStudySourceAtCursor = (editor: Editor): string | null => {
+	const cursorLine = editor.getCursor().line;
+
+	let startLine = -1;
+
+	for (let line = cursorLine; line >= 0; line--) {
+		const text = editor.getLine(line).trim();
+
+		if (text.startsWith('```chessStudy')) {
+			startLine = line;
+			break;
+		}
+
+		if (text.startsWith('```') && line !== cursorLine) return null;
+	}
+
+	if (startLine < 0) return null;
+
+	const sourceLines: string[] = [];
+
+	for (let line = startLine + 1; line < editor.lineCount(); line++) {
+		const text = editor.getLine(line);
+
+		if (text.trim().startsWith('```')) {
+			return line >= cursorLine ? sourceLines.join('\n') : null;
+		}
+
+		sourceLines.push(text);
+	}
+
+	return null;
+};
+
+export interface ChessStudyReference {
+	file: TFile;
+	chessStudyId: string;
+	// Line of the opening code fence
+	line: number;
+}
+
+/**
+ * Lists the chessStudy code blocks in the markdown content, inline studies
+ * are skipped as they do not reference a stored file.
+ */
+const parseChessStudyBlocks = (content: string) => {
+	const blocks: { chessStudyId: string; line: number }[] = [];
+
+	if (!content.includes('```chessStudy')) return blocks;
+
+	const lines = content.split('\n');
+
+	lines.forEach((text, line) => {
+		if (!text.trim().startsWith('```chessStudy')) return;
+
+		const end = lines.findIndex(
+			(text, i) => i > line && text.trim().startsWith('```')
+		);
+
+		const source = lines.slice(line + 1, end < 0 ? undefined : end).join('\n');
+
+		try {
+			const config = parseYaml(source) ?? {};
+			const chessStudyId = config.chessStudyId;
+
+			if (!chessStudyId && ('pgn' in config || 'fen' in config)) return;
+
+			blocks.push({
+				chessStudyId: chessStudyId ? String(chessStudyId) : '',
+				line,
+			});
+		} catch (e) {
+			blocks.push({ chessStudyId: '', line });
+		}
+	});
+
+	return blocks;
+};
+
+/**
+ * Collects every chessStudy code block in the markdown files of the vault.
+ */
+export const findChessStudyReferences = async (
+	app: App
+): Promise<ChessStudyReference[]> => {
+	const references: ChessStudyReference[] = [];
+
+	for (const file of app.vault.getMarkdownFiles()) {
+		const content = await app.vault.cachedRead(file);
+
+		parseChessStudyBlocks(content).forEach(({ chessStudyId, line }) =>
+			references.push({ file, chessStudyId, line })
+		);
+	}
+
+	return references;
+};
+
+/**
+ * Collects the studies referenced by code blocks in the text cards of canvases.
+ */
+export const findCanvasChessStudyIds = async (app: App) => {
+	const ids = new Set<string>();
+
+	const canvases = app.vault
+		.getFiles()
+		.filter((file) => file.extension === 'canvas');
+
+	for (const file of canvases) {
+		try {
+			const { nodes = [] } = JSON.parse(await app.vault.cachedRead(file));
+
+			for (const node of nodes) {
+				if (node?.type !== 'text' || typeof node.text !== 'string') continue;
+
+				parseChessStudyBlocks(node.text).forEach(({ chessStudyId }) =>
+					ids.add(chessStudyId)
+				);
+			}
+		} catch (e) {
+			console.log(`Could not read the canvas ${file.path}: ${e.message}`);
+		}
+	}
+
+	return ids;
+};
+
+/**
+ * Cross-references code blocks and stored files, listing both unreferenced
+ * files and code blocks pointing to files that do not exist. Studies used in
+ * canvases are not orphaned, but only notes are offered for re-linking.
+ */
+export const scanStudyReferences = async (
+	app: App,
+	dataAdapter: ChessStudyDataAdapter
+) => {
+	const references = await findChessStudyReferences(app);
+	const canvasIds = await findCanvasChessStudyIds(app);
+	const ids = await dataAdapter.listFileIds();
+
+	const orphans = ids.filter(
+		(id) =>
+			!canvasIds.has(id) &&
+			!references.some((reference) => reference.chessStudyId === id)
+	);
+	const dangling = references.filter(
+		(reference) => !ids.includes(reference.chessStudyId)
+	);
+
+	return { ids, orphans, dangling };
+};
+
+/**
+ * Points the referenced code block to another chessStudyId.
+ */
+export const replaceChessStudyId = async (
+	app: App,
+	reference: ChessStudyReference,
+	chessStudyId: string
+) => {
+	await app.vault.process(reference.file, (content) => {
+		const lines = content.split('\n');
+
+		if (!lines[reference.line]?.trim().startsWith('```chessStudy')) {
+			throw Error(`The code block in ${reference.file.path} has moved.`);
+		}
+
+		for (let line = reference.line + 1; line < lines.length; line++) {
+			if (lines[line].trim().startsWith('```')) break;
+
+			if (/^\s*chessStudyId\s*:/.test(lines[line])) {
+				lines[line] = `chessStudyId: ${chessStudyId}`;
+				return lines.join('\n');
+			}
+		}
+
+		lines.splice(reference.line + 1, 0, `chessStudyId: ${chessStudyId}`);
+
+		return lines.join('\n');
+	});
+};
+
+export const DEFAULT_NOTE_TEMPLATE =
+	'## {{white}} – {{black}}\n\n- Event: {{event}}\n- Date: {{date}}\n- Result: {{result}}\n\n{{chessStudy}}\n';
+
+export const getChessStudyCodeBlock = (chessStudyId: string) =>
+	`\`\`\`chessStudy\nchessStudyId: ${chessStudyId}\n\`\`\``;
+
+/**
+ * Fills the {{field}} placeholders of a note template with the header of a
+ * study, {{chessStudy}} is replaced by its code block.
+ */
+export const renderNoteTemplate = (
+	template: string,
+	header: ChessStudyHeader,
+	chessStudyId: string
+) =>
+	template.replace(/{{\s*(\w+)\s*}}/g, (placeholder, key: string) => {
+		if (key === 'chessStudy') return getChessStudyCodeBlock(chessStudyId);
+
+		if (!(key in header)) return placeholder;
+
+		return header[key as keyof ChessStudyHeader] ?? '';
+	});
+
+/**
+ * Returns a path for a new file in the folder that does not exist yet.
+ */
+export const getAvailableFilePath = (
+	app: App,
+	folder: string,
+	name: string,
+	extension = 'md'
+) => {
+	// Characters Obsidian does not allow in file names or links
+	const baseName = name.replace(/[\\/:*?"<>|#^[\]]/g, '').trim() || 'Untitled';
+
+	for (let i = 0; ; i++) {
+		const path = normalizePath(
+			`${folder}/${baseName}${i ? ` ${i}` : ''}.${extension}`
+		);
+
+		if (!app.vault.getAbstractFileByPath(path)) return path;
+	}
+};
+
+/**
+ * Saves the diagram to the vault and returns the markdown embedding it in the note.
+ */
+export const saveDiagram = async (
+	app: App,
+	{ diagramFormat, diagramFolder }: ChessStudyPluginSettings,
+	{ svg, name }: Diagram,
+	sourcePath: string
+) => {
+	const folder =
+		diagramFolder ||
+		app.vault.getAbstractFileByPath(sourcePath)?.parent?.path ||
+		'/';
+
+	if (!app.vault.getAbstractFileByPath(normalizePath(folder))) {
+		await app.vault.createFolder(folder);
+	}
+
+	const path = getAvailableFilePath(app, folder, name, diagramFormat);
+
+	const file =
+		diagramFormat === 'png'
+			? await app.vault.createBinary(path, await diagramToPng(svg))
+			: await app.vault.create(path, svg);
+
+	return `!${app.fileManager.generateMarkdownLink(file, sourcePath)}`;
+};
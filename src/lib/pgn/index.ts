@@ -0,0 +1,861 @@
+import { JSONContent } from '@tiptap/react';
+import { Chess, Move } from 'chess.js';
+import { DrawShape } from 'chessground/draw';
+import { nanoid } from 'nanoid';
+import { classifyLine } from 'src/lib/eco';
+import {
+	ChessStudyChapter,
+	ChessStudyFileData,
+	ChessStudyHeader,
+	ChessStudyMove,
+	Variant,
+	createChapter,
+	createStudyHeader,
+} from 'src/lib/storage';
+import { ROOT_FEN } from 'src/main';
+
+const MAX_LINE_LENGTH = 80;
+
+const BRUSH_TO_PGN_COLOR: Record<string, string> = {
+	green: 'G',
+	red: 'R',
+	blue: 'B',
+	yellow: 'Y',
+	paleGreen: 'G',
+	paleRed: 'R',
+	paleBlue: 'B',
+};
+
+const BLOCK_NODE_TYPES = [
+	'paragraph',
+	'heading',
+	'blockquote',
+	'codeBlock',
+	'listItem',
+];
+
+// Study header fields and their PGN tags in export order, Seven Tag Roster first
+export const PGN_HEADER_TAGS: [keyof ChessStudyHeader, string][] = [
+	['event', 'Event'],
+	['site', 'Site'],
+	['date', 'Date'],
+	['round', 'Round'],
+	['white', 'White'],
+	['black', 'Black'],
+	['result', 'Result'],
+	['whiteElo', 'WhiteElo'],
+	['blackElo', 'BlackElo'],
+	['eco', 'ECO'],
+	['timeControl', 'TimeControl'],
+	['annotator', 'Annotator'],
+	['title', 'Opening'],
+];
+
+// Placeholders for unknown Seven Tag Roster values
+const SEVEN_TAG_ROSTER_DEFAULTS: Record<string, string> = {
+	Event: '?',
+	Site: '?',
+	Date: '????.??.??',
+	Round: '?',
+	White: '?',
+	Black: '?',
+	Result: '*',
+};
+
+const escapeHeaderValue = (value: string) =>
+	value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+/**
+ * Reads the move number from the fullmove field of the position before the move.
+ */
+export const getMoveNumber = (move: Pick<Move, 'before'>) =>
+	parseInt(move.before.split(' ')[5], 10) || 1;
+
+/**
+ * Flattens a TipTap document into plain text, one space between blocks.
+ */
+export const commentToText = (comment: JSONContent | null): string => {
+	if (!comment) return '';
+
+	const collect = (node: JSONContent): string => {
+		if (node.type === 'text') return node.text ?? '';
+		if (node.type === 'hardBreak') return ' ';
+
+		const text = (node.content ?? []).map(collect).join('');
+
+		return BLOCK_NODE_TYPES.includes(node.type ?? '') ? ` ${text} ` : text;
+	};
+
+	return collect(comment).replace(/\s+/g, ' ').trim();
+};
+
+/**
+ * Serializes shapes into lichess style [%csl ...] and [%cal ...] tags.
+ */
+export const shapesToCommands = (shapes: DrawShape[]): string => {
+	const circles: string[] = [];
+	const arrows: string[] = [];
+
+	shapes.forEach((shape) => {
+		const color = BRUSH_TO_PGN_COLOR[shape.brush];
+
+		if (!color || shape.piece || shape.customSvg) return;
+
+		if (shape.dest && shape.dest !== shape.orig) {
+			arrows.push(`${color}${shape.orig}${shape.dest}`);
+		} else {
+			circles.push(`${color}${shape.orig}`);
+		}
+	});
+
+	return [
+		circles.length ? `[%csl ${circles.join(',')}]` : '',
+		arrows.length ? `[%cal ${arrows.join(',')}]` : '',
+	].join('');
+};
+
+const moveAnnotation = (move: ChessStudyMove): string | null => {
+	const text = [shapesToCommands(move.shapes), commentToText(move.comment)]
+		.filter((part) => part.length)
+		.join(' ')
+		.replace(/{/g, '(')
+		.replace(/}/g, ')');
+
+	return text.length ? `{${text}}` : null;
+};
+
+/**
+ * Writes a set of alternative continuations from the same position.
+ * The first line is the main continuation, the others become RAVs.
+ */
+const writeContinuations = (
+	lines: ChessStudyMove[][],
+	tokens: string[],
+	forceMoveNumber: boolean
+) => {
+	const [mainLine, ...alternatives] = lines;
+	const [move, ...rest] = mainLine;
+
+	const moveNumber = getMoveNumber(move);
+
+	if (move.color === 'w') {
+		tokens.push(`${moveNumber}.`);
+	} else if (forceMoveNumber) {
+		tokens.push(`${moveNumber}...`);
+	}
+
+	tokens.push(move.san);
+
+	move.nags.forEach((nag) => tokens.push(`$${nag}`));
+
+	const annotation = moveAnnotation(move);
+
+	if (annotation) tokens.push(annotation);
+
+	alternatives.forEach((alternative) => {
+		tokens.push('(');
+		writeContinuations([alternative], tokens, true);
+		tokens.push(')');
+	});
+
+	const nextLines = [
+		rest,
+		...move.variants.map((variant) => variant.moves),
+	].filter((line) => line.length > 0);
+
+	if (nextLines.length) {
+		writeContinuations(
+			nextLines,
+			tokens,
+			!!annotation || alternatives.length > 0
+		);
+	}
+};
+
+const wrapTokens = (tokens: string[]): string => {
+	const lines: string[] = [];
+	let currentLine = '';
+
+	tokens.forEach((token, i) => {
+		const previous = tokens[i - 1];
+		const glue =
+			!currentLine.length || previous === '(' || token === ')' ? '' : ' ';
+
+		if (
+			currentLine.length &&
+			(currentLine + glue + token).length > MAX_LINE_LENGTH
+		) {
+			lines.push(currentLine);
+			currentLine = token;
+		} else {
+			currentLine += glue + token;
+		}
+	});
+
+	if (currentLine.length) lines.push(currentLine);
+
+	return lines.join('\n');
+};
+
+/**
+ * Serializes a chapter into a PGN game with variants, comments, shapes and NAGs.
+ */
+export const exportChapterPgn = (chapter: ChessStudyChapter): string => {
+	const result =
+		RESULT_TOKENS.find((token) => token === chapter.header.result) ?? '*';
+
+	const headers: [string, string][] = [];
+
+	PGN_HEADER_TAGS.forEach(([field, tag]) => {
+		const value =
+			tag === 'Result'
+				? result
+				: chapter.header[field] || SEVEN_TAG_ROSTER_DEFAULTS[tag];
+
+		if (value) headers.push([tag, value]);
+	});
+
+	if (chapter.rootFEN !== ROOT_FEN) {
+		headers.push(['SetUp', '1']);
+		headers.push(['FEN', chapter.rootFEN]);
+	}
+
+	const tokens: string[] = [];
+
+	if (chapter.moves.length) writeContinuations([chapter.moves], tokens, true);
+
+	tokens.push(result);
+
+	const headerSection = headers
+		.map(([key, value]) => `[${key} "${escapeHeaderValue(value)}"]`)
+		.join('\n');
+
+	return `${headerSection}\n\n${wrapTokens(tokens)}\n`;
+};
+
+/**
+ * Serializes a stored study into PGN, every chapter is a game of its own.
+ */
+export const exportPgn = (study: ChessStudyFileData): string =>
+	study.chapters.map(exportChapterPgn).join('\n');
+
+export class PgnParseError extends Error {
+	line: number;
+	column: number;
+	token: string;
+
+	constructor(message: string, token: PgnToken) {
+		super(`${message} (line ${token.line}, column ${token.column})`);
+		this.name = 'PgnParseError';
+		this.line = token.line;
+		this.column = token.column;
+		this.token = token.value;
+	}
+}
+
+type PgnTokenType =
+	| 'header'
+	| 'comment'
+	| 'open'
+	| 'close'
+	| 'nag'
+	| 'moveNumber'
+	| 'san'
+	| 'result';
+
+interface PgnToken {
+	type: PgnTokenType;
+	value: string;
+	line: number;
+	column: number;
+}
+
+interface PgnNode {
+	san: string;
+	token: PgnToken;
+	nags: number[];
+	comments: string[];
+	variations: PgnLine[];
+}
+
+interface PgnLine {
+	startComments: string[];
+	nodes: PgnNode[];
+}
+
+export interface ParsedPgn {
+	headers: Record<string, string>;
+	header: ChessStudyHeader;
+	rootFEN: string;
+	moves: ChessStudyMove[];
+	result: string | null;
+	warnings: string[];
+}
+
+export const RESULT_TOKENS = ['1-0', '0-1', '1/2-1/2', '*'];
+
+const SUFFIX_TO_NAG: Record<string, number> = {
+	'!': 1,
+	'?': 2,
+	'!!': 3,
+	'??': 4,
+	'!?': 5,
+	'?!': 6,
+};
+
+const PGN_COLOR_TO_BRUSH: Record<string, string> = {
+	G: 'green',
+	R: 'red',
+	B: 'blue',
+	Y: 'yellow',
+};
+
+const tokenizePgn = (pgn: string, firstLine = 1): PgnToken[] => {
+	const tokens: PgnToken[] = [];
+
+	let index = 0;
+	let line = firstLine;
+	let lineStart = 0;
+
+	const push = (type: PgnTokenType, value: string, start: number) =>
+		tokens.push({ type, value, line, column: start - lineStart + 1 });
+
+	const advanceTo = (end: number) => {
+		for (; index < end; index++) {
+			if (pgn[index] === '\n') {
+				line++;
+				lineStart = index + 1;
+			}
+		}
+	};
+
+	while (index < pgn.length) {
+		const char = pgn[index];
+
+		if (char === '\n' || /\s/.test(char)) {
+			advanceTo(index + 1);
+			continue;
+		}
+
+		// Escape mechanism: lines starting with % are ignored
+		if (char === '%' && index === lineStart) {
+			const end = pgn.indexOf('\n', index);
+			advanceTo(end < 0 ? pgn.length : end);
+			continue;
+		}
+
+		if (char === ';') {
+			const end = pgn.indexOf('\n', index);
+			const value = pgn.slice(index + 1, end < 0 ? pgn.length : end);
+			push('comment', value, index);
+			advanceTo(end < 0 ? pgn.length : end);
+			continue;
+		}
+
+		if (char === '{') {
+			const end = pgn.indexOf('}', index);
+
+			if (end < 0) {
+				push('comment', pgn.slice(index), index);
+				throw new PgnParseError('Unterminated comment', tokens[tokens.length - 1]);
+			}
+
+			push('comment', pgn.slice(index + 1, end), index);
+			advanceTo(end + 1);
+			continue;
+		}
+
+		if (char === '[') {
+			const match = pgn
+				.slice(index)
+				.match(/^\[\s*([A-Za-z0-9_]+)\s*"((?:[^"\\]|\\.)*)"\s*\]/);
+
+			if (!match) {
+				const lineEnd = pgn.indexOf('\n', index);
+
+				push('header', pgn.slice(index, lineEnd < 0 ? undefined : lineEnd), index);
+				throw new PgnParseError('Malformed header', tokens[tokens.length - 1]);
+			}
+
+			push('header', match[0], index);
+			advanceTo(index + match[0].length);
+			continue;
+		}
+
+		if (char === '(' || char === ')') {
+			push(char === '(' ? 'open' : 'close', char, index);
+			advanceTo(index + 1);
+			continue;
+		}
+
+		const word = (pgn.slice(index).match(/^[^\s(){};[]+/) ?? [char])[0];
+		const start = index;
+
+		advanceTo(index + word.length);
+
+		if (RESULT_TOKENS.includes(word)) {
+			push('result', word, start);
+		} else if (/^\$\d+$/.test(word)) {
+			push('nag', word.slice(1), start);
+		} else if (/^[!?]+$/.test(word)) {
+			push('nag', `${SUFFIX_TO_NAG[word] ?? ''}`, start);
+		} else {
+			const moveNumber = word.match(/^(\d+)(\.+)(.*)$/);
+
+			if (moveNumber) {
+				push('moveNumber', `${moveNumber[1]}${moveNumber[2]}`, start);
+
+				if (moveNumber[3].length) {
+					tokens.push({
+						...tokens[tokens.length - 1],
+						type: 'san',
+						value: moveNumber[3],
+						column:
+							tokens[tokens.length - 1].column +
+							moveNumber[1].length +
+							moveNumber[2].length,
+					});
+				}
+			} else {
+				push('san', word, start);
+			}
+		}
+	}
+
+	return tokens;
+};
+
+const parseMovetext = (tokens: PgnToken[]) => {
+	const root: PgnLine = { startComments: [], nodes: [] };
+	const stack: PgnLine[] = [root];
+
+	let result: string | null = null;
+
+	for (const token of tokens) {
+		const currentLine = stack[stack.length - 1];
+		const lastNode = currentLine.nodes[currentLine.nodes.length - 1];
+
+		switch (token.type) {
+			case 'comment': {
+				if (lastNode) {
+					lastNode.comments.push(token.value);
+				} else {
+					currentLine.startComments.push(token.value);
+				}
+				break;
+			}
+			case 'nag': {
+				if (!lastNode) throw new PgnParseError('NAG without a move', token);
+
+				const nag = parseInt(token.value, 10);
+
+				if (!isNaN(nag)) lastNode.nags.push(nag);
+				break;
+			}
+			case 'open': {
+				if (!lastNode)
+					throw new PgnParseError('Variation without a preceding move', token);
+
+				const variation: PgnLine = { startComments: [], nodes: [] };
+				lastNode.variations.push(variation);
+				stack.push(variation);
+				break;
+			}
+			case 'close': {
+				if (stack.length === 1)
+					throw new PgnParseError('Unexpected closing parenthesis', token);
+
+				stack.pop();
+				break;
+			}
+			case 'san': {
+				const san = token.value.replace(/[!?]+$/, '');
+				const suffix = token.value.slice(san.length);
+
+				currentLine.nodes.push({
+					san,
+					token,
+					nags: SUFFIX_TO_NAG[suffix] ? [SUFFIX_TO_NAG[suffix]] : [],
+					comments: [],
+					variations: [],
+				});
+				break;
+			}
+			case 'result': {
+				if (stack.length > 1)
+					throw new PgnParseError('Game result inside a variation', token);
+
+				result = token.value;
+				break;
+			}
+			default:
+				break;
+		}
+
+		if (result !== null) break;
+	}
+
+	if (stack.length > 1) {
+		throw new PgnParseError('Unterminated variation', tokens[tokens.length - 1]);
+	}
+
+	return { root, result };
+};
+
+/**
+ * Splits a comment into its shapes, its plain text and unsupported commands.
+ */
+export const parseComment = (comment: string) => {
+	const shapes: DrawShape[] = [];
+	const unsupportedCommands: string[] = [];
+
+	const text = comment
+		.replace(/\[%(\w+)\s+([^\]]*)\]/g, (_match, command: string, args) => {
+			if (command !== 'cal' && command !== 'csl') {
+				unsupportedCommands.push(command);
+				return ' ';
+			}
+
+			(args as string)
+				.split(',')
+				.map((arg) => arg.trim())
+				.forEach((arg) => {
+					const shape = arg.match(/^([GRBY])([a-h][1-8])([a-h][1-8])?$/);
+
+					if (!shape) return;
+
+					shapes.push({
+						orig: shape[2] as DrawShape['orig'],
+						dest: (shape[3] as DrawShape['dest']) || undefined,
+						brush: PGN_COLOR_TO_BRUSH[shape[1]],
+					});
+				});
+
+			return ' ';
+		})
+		.replace(/\s+/g, ' ')
+		.trim();
+
+	return { shapes, text, unsupportedCommands };
+};
+
+const textToComment = (texts: string[]): JSONContent | null => {
+	if (!texts.length) return null;
+
+	return {
+		type: 'doc',
+		content: texts.map((text) => ({
+			type: 'paragraph',
+			content: [{ type: 'text', text }],
+		})),
+	};
+};
+
+export interface PgnParseOptions {
+	stopAtIllegalMove: boolean;
+	// Line of the game within a PGN database, so errors point to the right line
+	firstLine?: number;
+}
+
+/**
+ * Parses the first game of a PGN string into the study data model.
+ * Everything that can not be stored is reported in the warnings.
+ * With stopAtIllegalMove a line is cut off at its first illegal move instead of failing.
+ */
+export const parsePgn = (
+	pgn: string,
+	options: PgnParseOptions = { stopAtIllegalMove: false }
+): ParsedPgn => {
+	const tokens = tokenizePgn(pgn, options.firstLine);
+
+	const headers: Record<string, string> = {};
+
+	let movetextStart = 0;
+
+	while (tokens[movetextStart]?.type === 'header') {
+		const [, key, value] =
+			tokens[movetextStart].value.match(/^\[\s*(\w+)\s*"([\s\S]*)"\s*\]$/) ?? [];
+
+		headers[key] = value.replace(/\\(["\\])/g, '$1');
+		movetextStart++;
+	}
+
+	const movetext = tokens.slice(movetextStart);
+
+	const misplacedHeader = movetext.find((token) => token.type === 'header');
+
+	const { root, result } = parseMovetext(
+		misplacedHeader
+			? movetext.slice(0, movetext.indexOf(misplacedHeader))
+			: movetext
+	);
+
+	const unmapped = new Map<string, number>();
+	const note = (message: string) =>
+		unmapped.set(message, (unmapped.get(message) ?? 0) + 1);
+
+	const rootFEN = headers['FEN'] || ROOT_FEN;
+
+	const toMoveData = (node: PgnNode, chess: Chess, extraComments: string[]) => {
+		let move: Move;
+
+		try {
+			move = chess.move(node.san, { strict: false });
+		} catch (e) {
+			throw new PgnParseError(`Illegal move ${node.san}`, node.token);
+		}
+
+		const shapes: DrawShape[] = [];
+		const texts: string[] = [];
+
+		extraComments.concat(node.comments).forEach((comment) => {
+			const parsed = parseComment(comment);
+
+			shapes.push(...parsed.shapes);
+			if (parsed.text.length) texts.push(parsed.text);
+
+			parsed.unsupportedCommands.forEach((command) =>
+				note(`[%${command}] comment commands are not stored`)
+			);
+		});
+
+		return {
+			...move,
+			moveId: nanoid(),
+			shapes,
+			comment: textToComment(texts),
+			nags: node.nags,
+		};
+	};
+
+	const toMoves = (
+		line: PgnLine,
+		fen: string,
+		parent: ChessStudyMove | null
+	): ChessStudyMove[] => {
+		const chess = new Chess(fen);
+
+		const moves: ChessStudyMove[] = [];
+
+		for (const [i, node] of line.nodes.entries()) {
+			try {
+				moves.push({
+					...toMoveData(node, chess, i === 0 ? line.startComments : []),
+					variants: [],
+				});
+			} catch (e) {
+				if (!options.stopAtIllegalMove) throw e;
+
+				note(
+					`The line is cut off at the illegal move ${node.san} (line ${node.token.line}, column ${node.token.column})`
+				);
+				break;
+			}
+		}
+
+		line.nodes.slice(0, moves.length).forEach((node, i) => {
+			//Variations of the first move of a line are siblings of that line
+			const owner = i === 0 ? parent : moves[i - 1];
+
+			node.variations.forEach((variation) => {
+				if (!owner) {
+					note('Variations of the first move are not stored');
+					return;
+				}
+
+				const variant: Variant = {
+					variantId: nanoid(),
+					parentMoveId: owner.moveId,
+					moves: [],
+				};
+
+				owner.variants.push(variant);
+				variant.moves = toMoves(variation, moves[i].before, owner);
+
+				// Variations starting with an illegal move are dropped as a whole
+				if (!variant.moves.length) {
+					owner.variants.splice(owner.variants.indexOf(variant), 1);
+				}
+			});
+		});
+
+		return moves;
+	};
+
+	const moves = toMoves(root, rootFEN, null);
+
+	if (misplacedHeader)
+		note(
+			'Only the first game is imported, use the Import PGN file command for multiple games'
+		);
+
+	const header = createStudyHeader();
+
+	PGN_HEADER_TAGS.forEach(([field, tag]) => {
+		const value = headers[tag]?.trim();
+
+		if (value && value !== SEVEN_TAG_ROSTER_DEFAULTS[tag]) header[field] = value;
+	});
+
+	// Chapters of lichess studies are named in their own tag
+	if (!header.title && headers['ChapterName']?.trim()) {
+		header.title = headers['ChapterName'].trim();
+	}
+
+	if (!RESULT_TOKENS.includes(header.result ?? '')) header.result = null;
+	if (!header.result && result !== '*') header.result = result;
+
+	const storedHeaders = [
+		...PGN_HEADER_TAGS.map(([, tag]) => tag),
+		'FEN',
+		'SetUp',
+		'ChapterName',
+	];
+	const droppedHeaders = Object.keys(headers).filter(
+		(key) => !storedHeaders.includes(key)
+	);
+
+	const warnings = [...unmapped.entries()].map(([message, count]) =>
+		count > 1 ? `${message} (${count}x)` : message
+	);
+
+	if (droppedHeaders.length) {
+		warnings.push(`Headers are not stored: ${droppedHeaders.join(', ')}`);
+	}
+
+	return { headers, header, rootFEN, moves, result, warnings };
+};
+
+export interface PgnGame {
+	pgn: string;
+	headers: Record<string, string>;
+	// Line of the database the game starts at
+	line: number;
+}
+
+const HEADER_PATTERN = /^\[\s*([A-Za-z0-9_]+)\s*"((?:[^"\\]|\\.)*)"\s*\]/;
+
+/**
+ * Splits a PGN database into its games, a new game starts with the first
+ * header line after movetext. Only the headers are read, the movetext is
+ * parsed once a game is imported.
+ */
+export const splitPgnGames = (pgn: string): PgnGame[] => {
+	const games: PgnGame[] = [];
+
+	let lines: string[] = [];
+	let headers: Record<string, string> = {};
+	let firstLine = 1;
+	let hasMovetext = false;
+	let inComment = false;
+
+	const pushGame = () => {
+		const game = lines.join('\n').trimEnd();
+
+		if (game.length) games.push({ pgn: game, headers, line: firstLine });
+
+		lines = [];
+		headers = {};
+		hasMovetext = false;
+	};
+
+	for (const [i, line] of pgn.replace(/\r\n?/g, '\n').split('\n').entries()) {
+		// Blank lines between games belong to neither
+		if (!lines.length && !inComment && !line.trim().length) continue;
+
+		const header = inComment ? null : line.trim().match(HEADER_PATTERN);
+
+		if (header) {
+			if (hasMovetext) pushGame();
+
+			headers[header[1]] = header[2].replace(/\\(["\\])/g, '$1');
+		} else if (!inComment && line.trim().startsWith('%')) {
+			// Escaped lines neither start nor end a game
+		} else {
+			for (const char of line) {
+				if (inComment) {
+					if (char === '}') inComment = false;
+					continue;
+				}
+
+				// Braces in rest of line comments do not open a comment
+				if (char === ';') break;
+				if (char === '{') inComment = true;
+				if (!/\s/.test(char)) hasMovetext = true;
+			}
+		}
+
+		if (!lines.length) firstLine = i + 1;
+
+		lines.push(line);
+	}
+
+	pushGame();
+
+	return games;
+};
+
+// A FEN starts with eight ranks of piece placement
+const FEN_PATTERN = /^[pnbrqkPNBRQK1-8]+(\/[pnbrqkPNBRQK1-8]+){7}(\s|$)/;
+
+export const detectChessStringFormat = (chessString: string): 'fen' | 'pgn' =>
+	FEN_PATTERN.test(chessString.trim()) ? 'fen' : 'pgn';
+
+/**
+ * Parses a FEN or PGN, every game of a PGN becomes a chapter. An empty string
+ * is a new game from the starting position.
+ */
+export const parseChessString = (
+	chessString: string,
+	options: PgnParseOptions = { stopAtIllegalMove: false }
+): ParsedPgn[] => {
+	const trimmedChessString = chessString.trim();
+
+	if (detectChessStringFormat(trimmedChessString) === 'fen') {
+		return [parseFen(trimmedChessString)];
+	}
+
+	const games = splitPgnGames(chessString);
+
+	if (!games.length) return [parsePgn('', options)];
+
+	return games.map(({ pgn, line }) =>
+		parsePgn(pgn, { ...options, firstLine: line })
+	);
+};
+
+/**
+ * Collects the warnings of all games, prefixed by their chapter if there are several.
+ */
+export const getChapterWarnings = (chapters: ParsedPgn[]) =>
+	chapters.flatMap(({ warnings }, i) =>
+		chapters.length > 1
+			? warnings.map((warning) => `Chapter ${i + 1}: ${warning}`)
+			: warnings
+	);
+
+/**
+ * Turns a parsed game into a chapter classified by its main line.
+ */
+export const toChapter = ({
+	header,
+	rootFEN,
+	moves,
+}: ParsedPgn): ChessStudyChapter =>
+	createChapter({
+		header: { ...header, eco: header.eco || classifyLine(moves)?.eco || null },
+		moves,
+		rootFEN,
+	});
+
+/**
+ * Wraps a bare FEN into the same shape as a parsed PGN without moves.
+ */
+export const parseFen = (fen: string): ParsedPgn => ({
+	headers: {},
+	header: createStudyHeader(),
+	rootFEN: new Chess(fen).fen(),
+	moves: [],
+	result: null,
+	warnings: [],
+});
@@ -0,0 +1,266 @@
+import { DataAdapter, normalizePath } from 'obsidian';
+import {
+	ChessStudyDataAdapter,
+	ChessStudyFileData,
+	ChessStudyMove,
+	getChapterTitle,
+	getStudyTitle,
+} from 'src/lib/storage';
+import { getMoveLabel } from 'src/lib/ui-state';
+
+// Version 2 keys variants by their first move instead of the variant
+const REVIEW_DATABASE_VERSION = 2;
+
+const MIN_EASE_FACTOR = 1.3;
+const INITIAL_EASE_FACTOR = 2.5;
+
+// SM-2 qualities for the pass/fail grades
+const PASS_QUALITY = 4;
+const FAIL_QUALITY = 1;
+
+export interface ReviewCard {
+	repetitions: number;
+	// Days until the next review
+	interval: number;
+	easeFactor: number;
+	// yyyy-mm-dd
+	dueDate: string;
+	lastReviewed: string | null;
+}
+
+interface ReviewDatabaseData {
+	version: number;
+	cards: Record<string, ReviewCard>;
+}
+
+export interface ReviewLine {
+	cardId: string;
+	// Card id in review databases of version 1
+	legacyCardId: string;
+	chessStudyId: string;
+	title: string | null;
+	// null for studies with a single chapter
+	chapterTitle: string | null;
+	label: string;
+	// Moves leading to the line, already known when the card is shown
+	prefix: ChessStudyMove[];
+	moves: ChessStudyMove[];
+	startFen: string;
+}
+
+// Local calendar day, reviews become due at midnight
+export const toDateString = (date: Date) =>
+	[
+		date.getFullYear(),
+		`${date.getMonth() + 1}`.padStart(2, '0'),
+		`${date.getDate()}`.padStart(2, '0'),
+	].join('-');
+
+const addDays = (dateString: string, days: number) => {
+	const [year, month, day] = dateString.split('-').map(Number);
+
+	return toDateString(new Date(year, month - 1, day + days));
+};
+
+export const createReviewCard = (today: string): ReviewCard => ({
+	repetitions: 0,
+	interval: 0,
+	easeFactor: INITIAL_EASE_FACTOR,
+	dueDate: today,
+	lastReviewed: null,
+});
+
+/**
+ * Schedules the next review of a card following SM-2.
+ */
+export const scheduleReview = (
+	card: ReviewCard,
+	passed: boolean,
+	today: string
+): ReviewCard => {
+	const quality = passed ? PASS_QUALITY : FAIL_QUALITY;
+
+	let { repetitions, interval } = card;
+
+	if (quality >= 3) {
+		if (repetitions === 0) {
+			interval = 1;
+		} else if (repetitions === 1) {
+			interval = 6;
+		} else {
+			interval = Math.round(interval * card.easeFactor);
+		}
+
+		repetitions++;
+	} else {
+		repetitions = 0;
+		interval = 1;
+	}
+
+	const easeFactor = Math.max(
+		MIN_EASE_FACTOR,
+		card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+	);
+
+	return {
+		repetitions,
+		interval,
+		easeFactor,
+		dueDate: addDays(today, interval),
+		lastReviewed: today,
+	};
+};
+
+/**
+ * Turns the main line and every variant of each chapter into a reviewable line.
+ * Variants are keyed by their first move, which stays with the line when
+ * variants are reordered or promoted.
+ */
+export const collectReviewLines = (
+	chessStudyId: string,
+	study: ChessStudyFileData
+): ReviewLine[] => {
+	const lines: ReviewLine[] = [];
+
+	study.chapters.forEach((chapter, chapterIndex) => {
+		const chapterTitle =
+			study.chapters.length > 1 ? getChapterTitle(chapter, chapterIndex) : null;
+
+		const walk = (
+			lineId: string | null,
+			legacyLineId: string,
+			moves: ChessStudyMove[],
+			prefix: ChessStudyMove[]
+		) => {
+			if (!moves.length) return;
+
+			lines.push({
+				cardId: `${chessStudyId}:${lineId ?? moves[0].moveId}`,
+				legacyCardId: `${chessStudyId}:${legacyLineId}`,
+				chessStudyId,
+				title: getStudyTitle(study),
+				chapterTitle,
+				label: prefix.length
+					? `Variant after ${getMoveLabel(prefix[prefix.length - 1])}`
+					: 'Main line',
+				prefix,
+				moves,
+				startFen: moves[0].before,
+			});
+
+			// Variants of a move are alternatives to the next move
+			moves.forEach((move, i) => {
+				const variantPrefix = [...prefix, ...moves.slice(0, i + 1)];
+
+				move.variants.forEach((variant) =>
+					walk(null, variant.variantId, variant.moves, variantPrefix)
+				);
+			});
+		};
+
+		// The first chapter keeps the card of studies from before chapters
+		const mainLineId = chapterIndex === 0 ? 'main' : chapter.chapterId;
+
+		walk(mainLineId, mainLineId, chapter.moves, []);
+	});
+
+	return lines;
+};
+
+/**
+ * Stores the review schedule of all lines in a single file in the plugin folder.
+ */
+export class ReviewDatabase {
+	adapter: DataAdapter;
+	path: string;
+	data: ReviewDatabaseData | null = null;
+
+	constructor(adapter: DataAdapter, path: string) {
+		this.adapter = adapter;
+		this.path = normalizePath(path);
+	}
+
+	async load(): Promise<ReviewDatabaseData> {
+		if (this.data) return this.data;
+
+		this.data = (await this.adapter.exists(this.path))
+			? JSON.parse(await this.adapter.read(this.path))
+			: { version: REVIEW_DATABASE_VERSION, cards: {} };
+
+		return this.data as ReviewDatabaseData;
+	}
+
+	async save() {
+		if (!this.data) return;
+
+		await this.adapter.write(this.path, JSON.stringify(this.data, null, 2));
+	}
+
+	async getCard(cardId: string, today: string) {
+		const { cards } = await this.load();
+
+		return cards[cardId] ?? createReviewCard(today);
+	}
+
+	async grade(cardId: string, passed: boolean, today: string) {
+		const card = await this.getCard(cardId, today);
+		const { cards } = await this.load();
+
+		cards[cardId] = scheduleReview(card, passed, today);
+
+		await this.save();
+
+		return cards[cardId];
+	}
+
+	/**
+	 * Lists the lines of all stored studies that are due, new lines included.
+	 * Cards of deleted studies and lines are removed on the way.
+	 */
+	async findDueLines(
+		dataAdapter: ChessStudyDataAdapter,
+		today: string
+	): Promise<ReviewLine[]> {
+		const data = await this.load();
+		const { cards } = data;
+
+		const dueLines: ReviewLine[] = [];
+		const cardIds = new Set<string>();
+		// Cards of studies that can not be loaded are kept
+		const unreadableIds = new Set<string>();
+
+		for (const id of await dataAdapter.listFileIds()) {
+			try {
+				const study = await dataAdapter.loadFile(id);
+
+				for (const line of collectReviewLines(id, study)) {
+					if (data.version < 2 && cards[line.legacyCardId]) {
+						cards[line.cardId] = cards[line.legacyCardId];
+					}
+
+					cardIds.add(line.cardId);
+
+					const { dueDate } = await this.getCard(line.cardId, today);
+
+					if (dueDate <= today) dueLines.push(line);
+				}
+			} catch (e) {
+				console.log(e);
+				unreadableIds.add(id);
+			}
+		}
+
+		const staleCardIds = Object.keys(cards).filter(
+			(cardId) => !cardIds.has(cardId) && !unreadableIds.has(cardId.split(':')[0])
+		);
+
+		if (staleCardIds.length || data.version < REVIEW_DATABASE_VERSION) {
+			staleCardIds.forEach((cardId) => delete cards[cardId]);
+			data.version = REVIEW_DATABASE_VERSION;
+
+			await this.save();
+		}
+
+		return dueLines;
+	}
+}
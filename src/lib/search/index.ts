@@ -0,0 +1,205 @@
+import { Chess } from 'chess.js';
+import { normalizeFen } from 'src/lib/explorer';
+import { getMoveNumber } from 'src/lib/pgn';
+import {
+	ChessStudyDataAdapter,
+	ChessStudyFileData,
+	ChessStudyMove,
+	getChapterTitle,
+	getStudyTitle,
+} from 'src/lib/storage';
+import { getMoveLabel } from 'src/lib/ui-state';
+
+export type SearchQuery =
+	| { type: 'fen'; positionKey: string }
+	| { type: 'san'; sans: string[]; start: SearchStart | null }
+	| { type: 'eco'; prefix: string };
+
+// Move number and side of the first move of a SAN query, if it names them
+export interface SearchStart {
+	moveNumber: number;
+	color: 'w' | 'b';
+}
+
+export interface SearchResult {
+	chessStudyId: string;
+	title: string | null;
+	chapterId: string;
+	// null for studies with a single chapter
+	chapterTitle: string | null;
+	// null if the starting position of the study matches
+	moveId: string | null;
+	moveLabel: string;
+	isVariant: boolean;
+}
+
+export class SearchQueryError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'SearchQueryError';
+	}
+}
+
+// Check, mate and annotation suffixes do not matter for a match
+const normalizeSan = (san: string) => san.replace(/[+#!?]+$/, '');
+
+/**
+ * Interprets the query as a FEN if it contains a slash, as an ECO code (or a prefix
+ * like "B9") and otherwise as a SAN sequence like "1. e4 c5 2. Nf3". A sequence
+ * starting with a move number only matches at that move, otherwise anywhere.
+ */
+export const parseSearchQuery = (query: string): SearchQuery => {
+	const trimmedQuery = query.trim();
+
+	if (!trimmedQuery.length) throw new SearchQueryError('The search is empty.');
+
+	if (trimmedQuery.includes('/')) {
+		try {
+			return {
+				type: 'fen',
+				positionKey: normalizeFen(new Chess(trimmedQuery).fen()),
+			};
+		} catch (e) {
+			throw new SearchQueryError(e.message);
+		}
+	}
+
+	if (/^[A-E]\d{0,2}$/.test(trimmedQuery)) {
+		return { type: 'eco', prefix: trimmedQuery };
+	}
+
+	const sans = trimmedQuery
+		.replace(/\d+\.+/g, ' ')
+		.split(/\s+/)
+		.filter((san) => san.length)
+		.map(normalizeSan);
+
+	if (!sans.length) throw new SearchQueryError('The search contains no moves.');
+
+	const moveNumber = trimmedQuery.match(/^(\d+)(\.+)/);
+
+	if (!moveNumber) return { type: 'san', sans, start: null };
+
+	const start: SearchStart = {
+		moveNumber: parseInt(moveNumber[1], 10),
+		color: moveNumber[2].length > 1 ? 'b' : 'w',
+	};
+
+	return { type: 'san', sans, start };
+};
+
+const isStartMove = (
+	move: ChessStudyMove,
+	{ moveNumber, color }: SearchStart
+) => move.color === color && getMoveNumber(move) === moveNumber;
+
+/**
+ * Lists every move of a study, main line and variants, matching the query.
+ */
+export const searchStudy = (
+	chessStudyId: string,
+	study: ChessStudyFileData,
+	query: SearchQuery
+): SearchResult[] => {
+	const results: SearchResult[] = [];
+
+	study.chapters.forEach((chapter, chapterIndex) => {
+		const result = {
+			chessStudyId,
+			title: getStudyTitle(study),
+			chapterId: chapter.chapterId,
+			chapterTitle:
+				study.chapters.length > 1 ? getChapterTitle(chapter, chapterIndex) : null,
+		};
+
+		// Chapters are classified as a whole, so a match points to the start
+		if (query.type === 'eco') {
+			if (!chapter.header.eco?.startsWith(query.prefix)) return;
+
+			results.push({
+				...result,
+				moveId: null,
+				moveLabel: `ECO ${chapter.header.eco}`,
+				isVariant: false,
+			});
+
+			return;
+		}
+
+		const addResult = (move: ChessStudyMove | null, isVariant: boolean) =>
+			results.push({
+				...result,
+				moveId: move?.moveId ?? null,
+				moveLabel: move ? getMoveLabel(move) : 'Starting position',
+				isVariant,
+			});
+
+		const isMatch = (move: ChessStudyMove, history: ChessStudyMove[]) => {
+			if (query.type === 'fen') {
+				return normalizeFen(move.after) === query.positionKey;
+			}
+
+			if (query.type !== 'san') return false;
+
+			const { sans, start } = query;
+
+			if (history.length < sans.length) return false;
+
+			const matchedMoves = history.slice(-sans.length);
+
+			if (start && !isStartMove(matchedMoves[0], start)) return false;
+
+			return matchedMoves.every(
+				(historyMove, i) => normalizeSan(historyMove.san) === sans[i]
+			);
+		};
+
+		// Variants of a move are alternatives to the next move, so they continue after it
+		const walk = (
+			moves: ChessStudyMove[],
+			history: ChessStudyMove[],
+			isVariant: boolean
+		) => {
+			moves.reduce((lineHistory, move) => {
+				const moveHistory = [...lineHistory, move];
+
+				if (isMatch(move, moveHistory)) addResult(move, isVariant);
+
+				move.variants.forEach((variant) => walk(variant.moves, moveHistory, true));
+
+				return moveHistory;
+			}, history);
+		};
+
+		if (
+			query.type === 'fen' &&
+			normalizeFen(chapter.rootFEN) === query.positionKey
+		) {
+			addResult(null, false);
+		}
+
+		walk(chapter.moves, [], false);
+	});
+
+	return results;
+};
+
+/**
+ * Searches all stored studies, studies that can not be loaded are skipped.
+ */
+export const searchStudies = async (
+	dataAdapter: ChessStudyDataAdapter,
+	query: SearchQuery
+): Promise<SearchResult[]> => {
+	const results: SearchResult[] = [];
+
+	for (const id of await dataAdapter.listFileIds()) {
+		try {
+			results.push(...searchStudy(id, await dataAdapter.loadFile(id), query));
+		} catch (e) {
+			console.log(e);
+		}
+	}
+
+	return results;
+};
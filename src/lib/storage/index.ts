@@ -5,7 +5,7 @@ import { nanoid } from 'nanoid';
 import { DataAdapter, normalizePath } from 'obsidian';
 import { ROOT_FEN } from 'src/main';
 
-export const CURRENT_STORAGE_VERSION = '0.0.2';
+export const CURRENT_STORAGE_VERSION = '0.0.6';
 
 export interface Variant {
 	variantId: string;
@@ -13,29 +13,239 @@ export interface Variant {
 	moves: VariantMove[];
 }
 
-export interface VariantMove extends Move {
-	moveId: string;
-	shapes: DrawShape[];
-	comment: JSONContent | null;
-}
-
 export interface ChessStudyMove extends Move {
 	moveId: string;
 	variants: Variant[];
 	shapes: DrawShape[];
 	comment: JSONContent | null;
+	// Numeric Annotation Glyphs, e.g. 1 for "!" or 16 for "±"
+	nags: number[];
 }
 
-export interface ChessStudyFileData {
-	version: string;
-	header: { title: string | null };
+// Variant moves can hold variants of their own since storage version 0.0.3
+export type VariantMove = ChessStudyMove;
+
+// Game metadata since storage version 0.0.5, the title is the PGN Opening tag
+export interface ChessStudyHeader {
+	title: string | null;
+	event: string | null;
+	site: string | null;
+	date: string | null;
+	round: string | null;
+	white: string | null;
+	black: string | null;
+	result: string | null;
+	whiteElo: string | null;
+	blackElo: string | null;
+	eco: string | null;
+	timeControl: string | null;
+	annotator: string | null;
+}
+
+export const createStudyHeader = (
+	header: Partial<ChessStudyHeader> = {}
+): ChessStudyHeader => ({
+	title: null,
+	event: null,
+	site: null,
+	date: null,
+	round: null,
+	white: null,
+	black: null,
+	result: null,
+	whiteElo: null,
+	blackElo: null,
+	eco: null,
+	timeControl: null,
+	annotator: null,
+	...header,
+});
+
+// A study holds one or more chapters since storage version 0.0.6
+export interface ChessStudyChapter {
+	chapterId: string;
+	header: ChessStudyHeader;
 	moves: ChessStudyMove[];
 	rootFEN: string;
 }
 
+export const createChapter = (
+	chapter: Partial<Omit<ChessStudyChapter, 'chapterId'>> = {}
+): ChessStudyChapter => ({
+	chapterId: nanoid(),
+	header: createStudyHeader(),
+	moves: [],
+	rootFEN: ROOT_FEN,
+	...chapter,
+});
+
+export interface ChessStudyFileData {
+	version: string;
+	chapters: ChessStudyChapter[];
+}
+
+// The first chapter names the whole study
+export const getStudyTitle = (data: ChessStudyFileData) =>
+	data.chapters[0]?.header.title ?? null;
+
+export const setStudyTitle = (
+	data: ChessStudyFileData,
+	title: string | null
+): ChessStudyFileData => ({
+	...data,
+	chapters: data.chapters.map((chapter, i) =>
+		i === 0 ? { ...chapter, header: { ...chapter.header, title } } : chapter
+	),
+});
+
+export const getChapterTitle = (chapter: ChessStudyChapter, index: number) =>
+	chapter.header.title || `Chapter ${index + 1}`;
+
+export class StorageVersionError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'StorageVersionError';
+	}
+}
+
+// Stored data of any storage version
+type StoredStudyData = Record<string, unknown>;
+
+interface StorageMigration {
+	from: string;
+	to: string;
+	migrate: (data: StoredStudyData) => StoredStudyData;
+}
+
+const withNestedVariants = (moves: ChessStudyMove[]): ChessStudyMove[] =>
+	moves.map((move) => ({
+		...move,
+		variants: (move.variants ?? []).map((variant) => ({
+			...variant,
+			moves: withNestedVariants(variant.moves),
+		})),
+	}));
+
+const withNags = (moves: ChessStudyMove[]): ChessStudyMove[] =>
+	moves.map((move) => ({
+		...move,
+		nags: move.nags ?? [],
+		variants: move.variants.map((variant) => ({
+			...variant,
+			moves: withNags(variant.moves),
+		})),
+	}));
+
+// Each migration upgrades the data by exactly one storage version
+const STORAGE_MIGRATIONS: StorageMigration[] = [
+	{
+		from: '0.0.1',
+		to: '0.0.2',
+		migrate: (data) => ({ ...data, rootFEN: data.rootFEN || ROOT_FEN }),
+	},
+	{
+		from: '0.0.2',
+		to: '0.0.3',
+		migrate: (data) => ({
+			...data,
+			moves: withNestedVariants(data.moves as ChessStudyMove[]),
+		}),
+	},
+	{
+		from: '0.0.3',
+		to: '0.0.4',
+		migrate: (data) => ({
+			...data,
+			moves: withNags(data.moves as ChessStudyMove[]),
+		}),
+	},
+	{
+		from: '0.0.4',
+		to: '0.0.5',
+		migrate: (data) => ({
+			...data,
+			header: createStudyHeader(data.header as Partial<ChessStudyHeader>),
+		}),
+	},
+	{
+		from: '0.0.5',
+		to: '0.0.6',
+		migrate: ({ header, moves, rootFEN, ...data }) => ({
+			...data,
+			chapters: [
+				createChapter({
+					header: header as ChessStudyHeader,
+					moves: moves as ChessStudyMove[],
+					rootFEN: rootFEN as string,
+				}),
+			],
+		}),
+	},
+];
+
+const compareVersions = (a: string, b: string) => {
+	const aParts = a.split('.').map(Number);
+	const bParts = b.split('.').map(Number);
+
+	for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+		const difference = (aParts[i] ?? 0) - (bParts[i] ?? 0);
+
+		if (difference !== 0) return difference;
+	}
+
+	return 0;
+};
+
+/**
+ * Upgrades study data step by step to the current storage version.
+ */
+export const migrateStudyData = (
+	data: unknown
+): { data: ChessStudyFileData; isMigrated: boolean } => {
+	if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+		throw Error('The file does not contain a study.');
+	}
+
+	const storedData = data as StoredStudyData;
+	const initialVersion = String(storedData.version || '0.0.1');
+
+	if (compareVersions(initialVersion, CURRENT_STORAGE_VERSION) > 0) {
+		throw new StorageVersionError(
+			`This study was saved with storage version ${initialVersion}, but this version of Chess Study only supports up to ${CURRENT_STORAGE_VERSION}. Please update the plugin.`
+		);
+	}
+
+	let migratedData: StoredStudyData = { ...storedData, version: initialVersion };
+
+	while (migratedData.version !== CURRENT_STORAGE_VERSION) {
+		const migration = STORAGE_MIGRATIONS.find(
+			({ from }) => from === migratedData.version
+		);
+
+		if (!migration) {
+			throw new StorageVersionError(
+				`There is no migration for storage version ${migratedData.version}.`
+			);
+		}
+
+		migratedData = { ...migration.migrate(migratedData), version: migration.to };
+	}
+
+	return {
+		data: migratedData as unknown as ChessStudyFileData,
+		isMigrated: initialVersion !== CURRENT_STORAGE_VERSION,
+	};
+};
+
+type StudyChangeListener = (
+	id: string,
+	data: ChessStudyFileData | null
+) => void;
+
 export class ChessStudyDataAdapter {
 	adapter: DataAdapter;
 	storagePath: string;
+	changeListeners: StudyChangeListener[] = [];
 
 	constructor(adapter: DataAdapter, storagePath: string) {
 		this.adapter = adapter;
@@ -57,10 +267,26 @@ export class ChessStudyDataAdapter {
 			{}
 		);
 
+		this.changeListeners.forEach((listener) => listener(chessStudyId, data));
+
 		return chessStudyId;
 	}
 
-	async loadFile(id: string): Promise<ChessStudyFileData> {
+	/**
+	 * Registers a listener for saved and deleted studies, data is null on deletion.
+	 */
+	onChange(listener: StudyChangeListener) {
+		this.changeListeners.push(listener);
+
+		return () => {
+			this.changeListeners = this.changeListeners.filter((l) => l !== listener);
+		};
+	}
+
+	async loadFile(
+		id: string,
+		options: { writeBack: boolean } = { writeBack: false }
+	): Promise<ChessStudyFileData> {
 		console.log(
 			`Reading file from ${normalizePath(`${this.storagePath}/${id}.json`)}`
 		);
@@ -69,16 +295,59 @@ export class ChessStudyDataAdapter {
 			normalizePath(`${this.storagePath}/${id}.json`)
 		);
 
-		const jsonData = JSON.parse(data);
+		const { data: jsonData, isMigrated } = migrateStudyData(JSON.parse(data));
 
-		//Make sure data is compatible with storage version 0.0.1.
-		if (!jsonData.rootFEN) {
-			return { ...jsonData, rootFEN: ROOT_FEN };
+		if (isMigrated && options.writeBack) {
+			await this.saveFile(jsonData, id);
 		}
 
 		return jsonData;
 	}
 
+	async deleteFile(id: string) {
+		console.log(
+			`Deleting file ${normalizePath(`${this.storagePath}/${id}.json`)}`
+		);
+
+		await this.adapter.remove(normalizePath(`${this.storagePath}/${id}.json`));
+
+		this.changeListeners.forEach((listener) => listener(id, null));
+	}
+
+	async listFileIds(): Promise<string[]> {
+		const { files } = await this.adapter.list(this.storagePath);
+
+		return files
+			.filter((file) => file.endsWith('.json'))
+			.map((file) => file.slice(file.lastIndexOf('/') + 1, -'.json'.length));
+	}
+
+	async migrateAllFiles() {
+		const report = { migrated: 0, upToDate: 0, failed: [] as string[] };
+
+		for (const id of await this.listFileIds()) {
+			try {
+				const data = await this.adapter.read(
+					normalizePath(`${this.storagePath}/${id}.json`)
+				);
+
+				const migration = migrateStudyData(JSON.parse(data));
+
+				if (migration.isMigrated) {
+					await this.saveFile(migration.data, id);
+					report.migrated++;
+				} else {
+					report.upToDate++;
+				}
+			} catch (e) {
+				console.log(e);
+				report.failed.push(id);
+			}
+		}
+
+		return report;
+	}
+
 	async createStorageFolderIfNotExists() {
 		const folderExists = await this.adapter.exists(this.storagePath);
 
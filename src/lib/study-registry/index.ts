@@ -0,0 +1,89 @@
+import * as React from 'react';
+import { GameActions } from 'src/components/react/ChessStudy';
+import { Diagram } from 'src/lib/diagram';
+import { DisplayedPosition } from 'src/lib/ui-state';
+
+export interface StudyHandle {
+	chessStudyId: string;
+	// Element the study is rendered in, null before it is mounted
+	getContainerEl: () => HTMLElement | null;
+	dispatch: React.Dispatch<GameActions>;
+	getFen: () => string;
+	getDiagram: () => Diagram;
+}
+
+interface MoveSelection {
+	chessStudyId: string;
+	chapterId: string;
+	// null selects the starting position of the chapter
+	moveId: string | null;
+}
+
+const toSelectAction = ({ chapterId, moveId }: MoveSelection): GameActions =>
+	moveId
+		? { type: 'DISPLAY_SELECTED_MOVE_IN_HISTORY', moveId }
+		: { type: 'SELECT_CHAPTER', chapterId };
+
+/**
+ * Keeps track of the rendered studies, so commands and modals can reach them.
+ */
+export class StudyRegistry {
+	studies: StudyHandle[] = [];
+	// The study the user interacted with last, as long as its leaf is active
+	activeStudy: StudyHandle | null = null;
+	// Selection for a study that is not rendered yet, e.g. while its note opens
+	pendingSelection: MoveSelection | null = null;
+	// Displayed positions of saved inline studies, by the code block that renders anew
+	inlinePositions = new Map<string, DisplayedPosition>();
+
+	register(study: StudyHandle) {
+		this.studies.push(study);
+
+		if (this.pendingSelection?.chessStudyId === study.chessStudyId) {
+			study.dispatch(toSelectAction(this.pendingSelection));
+			this.pendingSelection = null;
+		}
+
+		return () => {
+			this.studies = this.studies.filter((s) => s !== study);
+
+			if (this.activeStudy === study) this.activeStudy = null;
+		};
+	}
+
+	activate(study: StudyHandle) {
+		this.activeStudy = study;
+	}
+
+	/**
+	 * Returns the active study if it is rendered inside the element, e.g. the active leaf.
+	 */
+	getActiveStudy(leafEl: HTMLElement | null) {
+		const containerEl = this.activeStudy?.getContainerEl();
+
+		return containerEl && leafEl?.contains(containerEl) ? this.activeStudy : null;
+	}
+
+	/**
+	 * Forgets the active study once the user moved on to another leaf.
+	 */
+	deactivateOutside(leafEl: HTMLElement | null) {
+		if (!this.getActiveStudy(leafEl)) this.activeStudy = null;
+	}
+
+	/**
+	 * Displays the move in every rendered instance of the study,
+	 * or in the next one to be rendered.
+	 */
+	selectMove(chessStudyId: string, chapterId: string, moveId: string | null) {
+		const selection = { chessStudyId, chapterId, moveId };
+
+		const studies = this.studies.filter(
+			(study) => study.chessStudyId === chessStudyId
+		);
+
+		studies.forEach((study) => study.dispatch(toSelectAction(selection)));
+
+		this.pendingSelection = studies.length ? null : selection;
+	}
+}
@@ -0,0 +1,180 @@
+import { Chess, Move } from 'chess.js';
+import { Api as ChessgroundApi } from 'chessground/api';
+import { Draft } from 'immer';
+import { GameActions, GameState } from 'src/components/react/ChessStudy';
+import {
+	displayMoveInHistory,
+	displayRootPosition,
+	findMoveIndex,
+	getActiveChapter,
+	getMoveLabel,
+} from 'src/lib/ui-state';
+
+export interface TrainingMiss {
+	moveId: string;
+	label: string;
+}
+
+export interface TrainingState {
+	color: 'w' | 'b';
+	// Wrong guesses for the current move
+	tries: number;
+	feedback: { type: 'correct' | 'wrong' | 'revealed'; san: string } | null;
+	misses: TrainingMiss[];
+	isFinished: boolean;
+}
+
+// Everything else would reveal upcoming moves or edit the study
+const TRAINING_ACTIONS: GameActions['type'][] = [
+	'PLAY_TRAINING_MOVE',
+	'STOP_TRAINING',
+];
+
+/**
+ * Returns the main line move following the current move.
+ */
+const getNextMainLineMove = (draft: Draft<GameState>) => {
+	const moves = getActiveChapter(draft).moves;
+	const currentMoveId = draft.currentMove?.moveId;
+
+	if (!currentMoveId) return moves[0] ?? null;
+
+	return moves[findMoveIndex(moves, currentMoveId).moveIndex + 1] ?? null;
+};
+
+const displayMove = (
+	draft: Draft<GameState>,
+	chessView: ChessgroundApi,
+	setChessLogic: React.Dispatch<React.SetStateAction<Chess>>,
+	moveId: string | null
+) => {
+	if (moveId) {
+		displayMoveInHistory(draft, chessView, setChessLogic, {
+			offset: 0,
+			selectedMoveId: moveId,
+		});
+	} else {
+		displayRootPosition(draft, chessView, setChessLogic);
+	}
+};
+
+/**
+ * Plays the opponent's replies until it is the trainee's turn or the line ends.
+ */
+const continueTraining = (
+	draft: Draft<GameState>,
+	chessView: ChessgroundApi,
+	setChessLogic: React.Dispatch<React.SetStateAction<Chess>>
+) => {
+	const training = draft.training;
+
+	if (!training) return draft;
+
+	let nextMove = getNextMainLineMove(draft);
+
+	while (nextMove && nextMove.color !== training.color) {
+		displayMove(draft, chessView, setChessLogic, nextMove.moveId);
+		nextMove = getNextMainLineMove(draft);
+	}
+
+	if (!nextMove) {
+		training.isFinished = true;
+		draft.isViewOnly = true;
+	}
+
+	return draft;
+};
+
+export const startTraining = (
+	draft: Draft<GameState>,
+	chessView: ChessgroundApi,
+	setChessLogic: React.Dispatch<React.SetStateAction<Chess>>,
+	color: 'w' | 'b'
+) => {
+	draft.training = {
+		color,
+		tries: 0,
+		feedback: null,
+		misses: [],
+		isFinished: false,
+	};
+
+	displayRootPosition(draft, chessView, setChessLogic);
+
+	return continueTraining(draft, chessView, setChessLogic);
+};
+
+/**
+ * Checks a guess against the main line, the correct move is revealed
+ * after the given number of wrong guesses.
+ */
+export const playTrainingMove = (
+	draft: Draft<GameState>,
+	chessView: ChessgroundApi,
+	setChessLogic: React.Dispatch<React.SetStateAction<Chess>>,
+	move: Move,
+	maxTries: number
+) => {
+	const training = draft.training;
+	const expectedMove = getNextMainLineMove(draft);
+
+	if (!training || !expectedMove) return draft;
+
+	if (move.san === expectedMove.san) {
+		training.tries = 0;
+		training.feedback = { type: 'correct', san: move.san };
+
+		displayMove(draft, chessView, setChessLogic, expectedMove.moveId);
+
+		return continueTraining(draft, chessView, setChessLogic);
+	}
+
+	training.tries++;
+
+	if (training.tries < maxTries) {
+		training.feedback = { type: 'wrong', san: move.san };
+
+		// Take the wrong move back
+		displayMove(
+			draft,
+			chessView,
+			setChessLogic,
+			draft.currentMove?.moveId ?? null
+		);
+
+		return draft;
+	}
+
+	training.tries = 0;
+	training.feedback = { type: 'revealed', san: expectedMove.san };
+	training.misses.push({
+		moveId: expectedMove.moveId,
+		label: getMoveLabel(expectedMove),
+	});
+
+	displayMove(draft, chessView, setChessLogic, expectedMove.moveId);
+
+	return continueTraining(draft, chessView, setChessLogic);
+};
+
+export const stopTraining = (draft: Draft<GameState>) => {
+	draft.training = null;
+	draft.isViewOnly = false;
+
+	return draft;
+};
+
+/**
+ * Ignores every action but guesses while training.
+ */
+export const withTrainingMode =
+	(reducer: (draft: Draft<GameState>, action: GameActions) => void) =>
+	(draft: Draft<GameState>, action: GameActions) => {
+		if (draft.training && !TRAINING_ACTIONS.includes(action.type)) {
+			return draft;
+		}
+
+		reducer(draft, action);
+
+		return draft;
+	};
@@ -1,34 +1,128 @@
-import { Chess } from 'chess.js';
+import { Chess, Move } from 'chess.js';
 import { Api as ChessgroundApi } from 'chessground/api';
-import { Draft } from 'immer';
-import { GameState } from 'src/components/react/ChessStudy';
+import { Draft, castDraft, current, original } from 'immer';
+import { nanoid } from 'nanoid';
+import { GameActions, GameState } from 'src/components/react/ChessStudy';
+import { getMoveNumber } from 'src/lib/pgn';
 import { toColor, toDests } from '../chess-logic';
-import { ChessStudyMove, VariantMove } from '../storage';
+import {
+	ChessStudyChapter,
+	ChessStudyFileData,
+	ChessStudyMove,
+	VariantMove,
+} from '../storage';
 
-interface MovePosition {
-	variant: { parentMoveIndex: number; variantIndex: number } | null;
+interface VariantPosition {
+	parentMoveIndex: number;
+	variantIndex: number;
+}
+
+export interface MovePosition {
+	// Path of variants leading from the main line to the line holding the move
+	variants: VariantPosition[];
 	moveIndex: number;
 }
 
+/**
+ * The displayed move by chapter and position in the move tree, unlike the
+ * move ids it survives writing the study to PGN and parsing it again.
+ */
+export interface DisplayedPosition {
+	chapterIndex: number;
+	// null for the starting position of the chapter
+	position: MovePosition | null;
+}
+
+/**
+ * Returns the chapter that is displayed and edited.
+ */
+export const getActiveChapter = (
+	state: GameState | Draft<GameState>
+): Draft<ChessStudyChapter> => state.study.chapters[state.chapterIndex];
+
+/**
+ * Returns the index of the chapter holding the move, or -1.
+ */
+export const findChapterIndex = (study: ChessStudyFileData, moveId: string) =>
+	study.chapters.findIndex(
+		(chapter) => findMoveIndex(chapter.moves, moveId).moveIndex >= 0
+	);
+
 export const findMoveIndex = (
 	moves: ChessStudyMove[],
 	moveId: string
 ): MovePosition => {
-	for (const [iMainLine, move] of moves.entries()) {
-		if (move.moveId === moveId) return { variant: null, moveIndex: iMainLine };
+	for (const [iLine, move] of moves.entries()) {
+		if (move.moveId === moveId) return { variants: [], moveIndex: iLine };
 
 		for (const [iVariant, variant] of move.variants.entries()) {
-			const moveIndex = variant.moves.findIndex((move) => move.moveId === moveId);
+			const { variants, moveIndex } = findMoveIndex(variant.moves, moveId);
 
 			if (moveIndex >= 0)
 				return {
-					variant: { parentMoveIndex: iMainLine, variantIndex: iVariant },
+					variants: [
+						{ parentMoveIndex: iLine, variantIndex: iVariant },
+						...variants,
+					],
 					moveIndex: moveIndex,
 				};
 		}
 	}
 
-	return { variant: null, moveIndex: -1 };
+	return { variants: [], moveIndex: -1 };
+};
+
+export const getDisplayedPosition = (state: GameState): DisplayedPosition => ({
+	chapterIndex: state.chapterIndex,
+	position: state.currentMove
+		? findMoveIndex(getActiveChapter(state).moves, state.currentMove.moveId)
+		: null,
+});
+
+/**
+ * Finds the chapter and move at the displayed position, null if the study has none.
+ */
+export const getDisplayedMove = (
+	study: ChessStudyFileData,
+	{ chapterIndex, position }: DisplayedPosition
+) => {
+	const chapter = study.chapters[chapterIndex];
+
+	if (!chapter) return null;
+
+	if (!position) return { chapterId: chapter.chapterId, moveId: null };
+
+	let line: ChessStudyMove[] | undefined = chapter.moves;
+
+	position.variants.forEach(({ parentMoveIndex, variantIndex }) => {
+		line = line?.[parentMoveIndex]?.variants[variantIndex]?.moves;
+	});
+
+	const move = line?.[position.moveIndex];
+
+	return move ? { chapterId: chapter.chapterId, moveId: move.moveId } : null;
+};
+
+export const getLine = <T extends ChessStudyMove | Draft<ChessStudyMove>>(
+	moves: T[],
+	variants: VariantPosition[]
+): T[] => {
+	return variants.reduce(
+		(line, { parentMoveIndex, variantIndex }) =>
+			line[parentMoveIndex].variants[variantIndex].moves as T[],
+		moves
+	);
+};
+
+export const getParentMove = <T extends ChessStudyMove | Draft<ChessStudyMove>>(
+	moves: T[],
+	variants: VariantPosition[]
+): T | null => {
+	if (!variants.length) return null;
+
+	const { parentMoveIndex } = variants[variants.length - 1];
+
+	return getLine(moves, variants.slice(0, -1))[parentMoveIndex];
 };
 
 export const displayMoveInHistory = (
@@ -45,39 +139,29 @@ export const displayMoveInHistory = (
 	const { offset, selectedMoveId } = options;
 
 	//Figure out where we are
-	const currentMove = draft.currentMove;
-
-	if (currentMove) {
-		const currentMoveId = currentMove.moveId;
-
-		const moves = draft.study.moves;
-
-		//If we pass a moveId, find out where that is and offset from there, otherwise take current moveId
-		const baseMoveId = selectedMoveId || currentMoveId;
+	//If we pass a moveId, find out where that is and offset from there, otherwise take current moveId
+	const baseMoveId = selectedMoveId || draft.currentMove?.moveId;
 
-		const { variant, moveIndex } = findMoveIndex(moves, baseMoveId);
-		//Are we in a variant? Are we not? Decide which move to display
+	if (baseMoveId) {
+		const moves = getActiveChapter(draft).moves;
 
-		if (variant) {
-			const variantMoves =
-				moves[variant.parentMoveIndex].variants[variant.variantIndex].moves;
+		const { variants, moveIndex } = findMoveIndex(moves, baseMoveId);
+		const line = getLine(moves, variants);
 
-			if (typeof variantMoves[moveIndex + offset] !== 'undefined') {
-				moveToDisplay = variantMoves[moveIndex + offset];
-			}
-
-			if (typeof moveToDisplay === 'undefined') {
-				moveToDisplay = moves[variant.parentMoveIndex + offset];
-			}
-		} else {
-			if (typeof moves[moveIndex + offset] !== 'undefined') {
-				moveToDisplay = moves[moveIndex + offset];
-			}
+		if (moveIndex < 0) {
+			moveToDisplay = null;
+		} else if (typeof line[moveIndex + offset] !== 'undefined') {
+			moveToDisplay = line[moveIndex + offset];
+		} else if (moveIndex + offset < 0) {
+			//Stepping back from the first move of a variant leads to its parent move
+			moveToDisplay = getParentMove(moves, variants);
 		}
 	} else if (offset < 0) {
-	  moveToDisplay = draft.study.moves[draft.study.moves.length - 1];
+		const { moves } = getActiveChapter(draft);
+
+		moveToDisplay = moves[moves.length - 1];
 	} else if (offset > 0) {
-	  moveToDisplay = draft.study.moves[0];
+		moveToDisplay = getActiveChapter(draft).moves[0];
 	}
 
 	if (moveToDisplay) {
@@ -97,23 +181,8 @@ export const displayMoveInHistory = (
 		draft.currentMove = moveToDisplay;
 
 		setChessLogic(chess);
-	} else if (offset !== 0){
-		const chess = draft.study.root.fen ? new Chess(draft.study.root.fen) : new Chess();
-
-		chessView.set({
-		  fen: chess.fen(),
-			check: chess.isCheck(),
-			movable: {
-				free: false,
-				color: toColor(chess),
-				dests: toDests(chess),
-			},
-			turnColor: toColor(chess),
-		});
-
-		draft.currentMove = null;
-
-		setChessLogic(chess);
+	} else if (offset !== 0) {
+		displayRootPosition(draft, chessView, setChessLogic);
 	} else {
 		console.log(`No move to display found`);
 		return draft;
@@ -122,23 +191,447 @@ export const displayMoveInHistory = (
 	return draft;
 };
 
+/**
+ * Returns the moves played from the same position as the given move:
+ * the continuation it branches off from followed by the first move of each variant.
+ */
+export const getSiblingMoves = <
+	T extends ChessStudyMove | Draft<ChessStudyMove>
+>(
+	moves: T[],
+	moveId: string
+): T[] => {
+	const { variants, moveIndex } = findMoveIndex(moves, moveId);
+
+	if (moveIndex < 0) return [];
+
+	const line = getLine(moves, variants);
+
+	let continuation: T | undefined = line[moveIndex];
+	let owner: T | null = line[moveIndex - 1] ?? null;
+
+	if (moveIndex === 0 && variants.length) {
+		// The first move of a variant is an alternative to the continuation of its parent
+		const { parentMoveIndex } = variants[variants.length - 1];
+
+		continuation = getLine(moves, variants.slice(0, -1))[parentMoveIndex + 1];
+		owner = getParentMove(moves, variants);
+	}
+
+	const variantMoves = (owner?.variants ?? []).map(
+		(variant) => variant.moves[0] as T
+	);
+
+	return (continuation ? [continuation] : [])
+		.concat(variantMoves)
+		.filter((move) => !!move);
+};
+
+/**
+ * Returns the last move of the line the given move is part of.
+ */
+export const getLastMoveOfLine = <
+	T extends ChessStudyMove | Draft<ChessStudyMove>
+>(
+	moves: T[],
+	moveId: string | null
+): T | null => {
+	if (!moveId) return moves[moves.length - 1] ?? null;
+
+	const { variants, moveIndex } = findMoveIndex(moves, moveId);
+
+	if (moveIndex < 0) return moves[moves.length - 1] ?? null;
+
+	const line = getLine(moves, variants);
+
+	return line[line.length - 1];
+};
+
+/**
+ * Returns the moves played from the starting position up to the given move.
+ */
+export const getMovePath = <T extends ChessStudyMove | Draft<ChessStudyMove>>(
+	moves: T[],
+	moveId: string
+): T[] => {
+	const { variants, moveIndex } = findMoveIndex(moves, moveId);
+
+	if (moveIndex < 0) return [];
+
+	const path: T[] = [];
+	let line = moves;
+
+	// A variant branches off after its parent move
+	variants.forEach(({ parentMoveIndex, variantIndex }) => {
+		path.push(...line.slice(0, parentMoveIndex + 1));
+		line = line[parentMoveIndex].variants[variantIndex].moves as T[];
+	});
+
+	return path.concat(line.slice(0, moveIndex + 1));
+};
+
+/**
+ * Formats a move with its move number, e.g. "12. Nf3" or "12... Nf6".
+ */
+export const getMoveLabel = (move: ChessStudyMove | Draft<ChessStudyMove>) => {
+	return `${getMoveNumber(move)}${move.color === 'w' ? '.' : '...'} ${move.san}`;
+};
+
+export const displayRootPosition = (
+	draft: Draft<GameState>,
+	chessView: ChessgroundApi,
+	setChessLogic: React.Dispatch<React.SetStateAction<Chess>>
+): Draft<GameState> => {
+	const chess = new Chess(getActiveChapter(draft).rootFEN);
+
+	chessView.set({
+		fen: chess.fen(),
+		check: chess.isCheck(),
+		movable: {
+			free: false,
+			color: toColor(chess),
+			dests: toDests(chess),
+		},
+		turnColor: toColor(chess),
+	});
+
+	draft.currentMove = null;
+
+	setChessLogic(chess);
+
+	return draft;
+};
+
 export const getCurrentMove = (
 	draft: Draft<GameState>
 ): Draft<ChessStudyMove> | Draft<VariantMove> | null => {
 	const currentMoveId = draft.currentMove?.moveId;
-	const moves = draft.study.moves;
+	const moves = getActiveChapter(draft).moves;
 
 	if (currentMoveId) {
-		const { variant, moveIndex } = findMoveIndex(moves, currentMoveId);
+		const { variants, moveIndex } = findMoveIndex(moves, currentMoveId);
+
+		if (moveIndex >= 0) return getLine(moves, variants)[moveIndex];
+	}
+
+	return null;
+};
+
+/**
+ * Adds a move after the current move: at the end of the line, as the existing
+ * continuation or variant if it was played before, or as a new variant.
+ * Returns false if the move would be a variant of the first move.
+ */
+export const addMoveToHistory = (
+	draft: Draft<GameState>,
+	newMove: Move
+): boolean => {
+	const moves = getActiveChapter(draft).moves;
+	const currentMoveId = draft.currentMove?.moveId;
+
+	const move = {
+		...newMove,
+		moveId: nanoid(),
+		variants: [],
+		shapes: [],
+		comment: null,
+		nags: [],
+	};
+
+	if (currentMoveId) {
+		const { variants, moveIndex } = findMoveIndex(moves, currentMoveId);
+
+		const line = getLine(moves, variants);
+
+		const isLastMove = moveIndex === line.length - 1;
+
+		if (isLastMove) {
+			line.push(move);
+
+			draft.currentMove = move;
+
+			return true;
+		}
+
+		const currentMove = line[moveIndex];
+
+		// check if the next move or one of its variants is the same move
+		const nextMove = line[moveIndex + 1];
 
-		if (variant) {
-			return moves[variant.parentMoveIndex].variants[variant.variantIndex].moves[
-				moveIndex
-			];
+		if (nextMove.san === newMove.san) {
+			draft.currentMove = nextMove;
+			return true;
+		}
+
+		const existingVariant = currentMove.variants.find(
+			(variant) => variant.moves[0]?.san === newMove.san
+		);
+
+		if (existingVariant) {
+			draft.currentMove = existingVariant.moves[0];
+			return true;
+		}
+
+		currentMove.variants.push({
+			parentMoveId: currentMove.moveId,
+			variantId: nanoid(),
+			moves: [move],
+		});
+
+		draft.currentMove = move;
+	} else if (moves.length === 0) {
+		moves.push(move);
+
+		draft.currentMove = move;
+	} else if (moves[0].san === newMove.san) {
+		draft.currentMove = moves[0];
+	} else {
+		return false;
+	}
+
+	return true;
+};
+
+/**
+ * Swaps the variant holding the move with the continuation it branches off from,
+ * level by level, until the move is part of the main line.
+ */
+export const promoteVariant = (
+	moves: Draft<ChessStudyMove>[],
+	moveId: string
+) => {
+	let { variants } = findMoveIndex(moves, moveId);
+
+	while (variants.length) {
+		const { parentMoveIndex, variantIndex } = variants[variants.length - 1];
+
+		const parentLine = getLine(moves, variants.slice(0, -1));
+		const parent = parentLine[parentMoveIndex];
+		const variant = parent.variants[variantIndex];
+
+		const previousContinuation = parentLine.splice(parentMoveIndex + 1);
+		parentLine.push(...variant.moves);
+
+		if (previousContinuation.length) {
+			variant.moves = previousContinuation;
 		} else {
-			return moves[moveIndex];
+			parent.variants.splice(variantIndex, 1);
 		}
+
+		variants = variants.slice(0, -1);
 	}
+};
 
-	return null;
+/**
+ * Reorders the variant holding the move relative to its sibling variants.
+ */
+export const moveVariant = (
+	moves: Draft<ChessStudyMove>[],
+	moveId: string,
+	direction: -1 | 1
+) => {
+	const { variants } = findMoveIndex(moves, moveId);
+	const parent = getParentMove(moves, variants);
+
+	if (!parent) return;
+
+	const { variantIndex } = variants[variants.length - 1];
+	const targetIndex = variantIndex + direction;
+
+	if (targetIndex < 0 || targetIndex >= parent.variants.length) return;
+
+	const [variant] = parent.variants.splice(variantIndex, 1);
+	parent.variants.splice(targetIndex, 0, variant);
+};
+
+/**
+ * Variants hold alternatives to the next move of their parent. When a line
+ * is cut after a move with variants, its first variant continues the line.
+ */
+export const promoteOrphanedVariant = (line: Draft<ChessStudyMove>[]) => {
+	const lastMove = line[line.length - 1];
+
+	if (!lastMove?.variants.length) return;
+
+	const [variant] = lastMove.variants.splice(0, 1);
+
+	line.push(...variant.moves);
+};
+
+/**
+ * Removes the move and everything that follows it in its line.
+ * Returns the move that is displayed afterwards.
+ */
+export const deleteFromMove = (
+	moves: Draft<ChessStudyMove>[],
+	moveId: string
+): Draft<ChessStudyMove> | null => {
+	const { variants, moveIndex } = findMoveIndex(moves, moveId);
+
+	if (moveIndex < 0) return null;
+
+	const line = getLine(moves, variants);
+	const parent = getParentMove(moves, variants);
+
+	line.splice(moveIndex);
+
+	promoteOrphanedVariant(line);
+
+	if (parent && !line.length) {
+		parent.variants.splice(variants[variants.length - 1].variantIndex, 1);
+	}
+
+	return line[moveIndex - 1] ?? parent;
+};
+
+/**
+ * Removes the whole variant holding the move.
+ * Returns the move the variant branched off from.
+ */
+export const deleteVariant = (
+	moves: Draft<ChessStudyMove>[],
+	moveId: string
+): Draft<ChessStudyMove> | null => {
+	const { variants } = findMoveIndex(moves, moveId);
+	const parent = getParentMove(moves, variants);
+
+	if (!parent) return null;
+
+	parent.variants.splice(variants[variants.length - 1].variantIndex, 1);
+
+	return parent;
+};
+
+export interface StudySnapshot {
+	study: ChessStudyFileData;
+	chapterIndex: number;
+	currentMoveId: string | null;
+	// Consecutive edits with the same key are undone as one step
+	coalesceKey: string | null;
+}
+
+const MAX_EDIT_HISTORY = 100;
+
+const UNDOABLE_ACTIONS: GameActions['type'][] = [
+	'ADD_MOVE_TO_HISTORY',
+	'ADD_LINE_TO_HISTORY',
+	'REMOVE_LAST_MOVE_FROM_HISTORY',
+	'SYNC_SHAPES',
+	'SYNC_COMMENT',
+	'TOGGLE_NAG',
+	'UPDATE_HEADER',
+	'PROMOTE_VARIANT',
+	'MOVE_VARIANT',
+	'DELETE_FROM_MOVE',
+	'DELETE_VARIANT',
+	'ADD_CHAPTER',
+	'DELETE_CHAPTER',
+];
+
+const takeSnapshot = (
+	draft: Draft<GameState>,
+	coalesceKey: string | null = null
+): StudySnapshot => ({
+	study: original(draft.study) ?? current(draft.study),
+	chapterIndex: draft.chapterIndex,
+	currentMoveId: draft.currentMove?.moveId ?? null,
+	coalesceKey,
+});
+
+/**
+ * Records the study before every undoable action that changes it.
+ */
+export const withEditHistory =
+	(reducer: (draft: Draft<GameState>, action: GameActions) => void) =>
+	(draft: Draft<GameState>, action: GameActions) => {
+		if (!UNDOABLE_ACTIONS.includes(action.type)) {
+			reducer(draft, action);
+			return draft;
+		}
+
+		let coalesceKey: string | null = null;
+
+		if (action.type === 'SYNC_COMMENT') {
+			coalesceKey = `${action.type}:${draft.currentMove?.moveId}`;
+		} else if (action.type === 'UPDATE_HEADER') {
+			coalesceKey = `${action.type}:${draft.chapterIndex}:${Object.keys(
+				action.header
+			).join()}`;
+		}
+
+		const snapshot = takeSnapshot(draft, coalesceKey);
+
+		reducer(draft, action);
+
+		if (current(draft.study) === snapshot.study) return draft;
+
+		const lastSnapshot = draft.undoStack[draft.undoStack.length - 1];
+
+		if (!coalesceKey || lastSnapshot?.coalesceKey !== coalesceKey) {
+			draft.undoStack.push(castDraft(snapshot));
+			draft.undoStack.splice(0, draft.undoStack.length - MAX_EDIT_HISTORY);
+		}
+
+		draft.redoStack = [];
+
+		return draft;
+	};
+
+const restoreSnapshot = (
+	draft: Draft<GameState>,
+	snapshot: StudySnapshot,
+	chessView: ChessgroundApi,
+	setChessLogic: React.Dispatch<React.SetStateAction<Chess>>
+) => {
+	draft.study = castDraft(snapshot.study);
+	draft.chapterIndex = snapshot.chapterIndex;
+
+	if (
+		snapshot.currentMoveId &&
+		findMoveIndex(getActiveChapter(draft).moves, snapshot.currentMoveId)
+			.moveIndex >= 0
+	) {
+		displayMoveInHistory(draft, chessView, setChessLogic, {
+			offset: 0,
+			selectedMoveId: snapshot.currentMoveId,
+		});
+	} else {
+		displayRootPosition(draft, chessView, setChessLogic);
+	}
+};
+
+export const undoEdit = (
+	draft: Draft<GameState>,
+	chessView: ChessgroundApi,
+	setChessLogic: React.Dispatch<React.SetStateAction<Chess>>
+): Draft<GameState> => {
+	const undoStack = current(draft.undoStack);
+	const snapshot = undoStack[undoStack.length - 1];
+
+	if (!snapshot) return draft;
+
+	draft.undoStack.pop();
+	draft.redoStack.push(castDraft(takeSnapshot(draft)));
+
+	restoreSnapshot(draft, snapshot, chessView, setChessLogic);
+
+	return draft;
+};
+
+export const redoEdit = (
+	draft: Draft<GameState>,
+	chessView: ChessgroundApi,
+	setChessLogic: React.Dispatch<React.SetStateAction<Chess>>
+): Draft<GameState> => {
+	const redoStack = current(draft.redoStack);
+	const snapshot = redoStack[redoStack.length - 1];
+
+	if (!snapshot) return draft;
+
+	draft.redoStack.pop();
+	draft.undoStack.push(castDraft(takeSnapshot(draft)));
+
+	restoreSnapshot(draft, snapshot, chessView, setChessLogic);
+
+	return draft;
 };
@@ -1,25 +1,55 @@
-import { Chess } from 'chess.js';
 import { Editor, Notice, Plugin, normalizePath } from 'obsidian';
 import {
 	CURRENT_STORAGE_VERSION,
 	ChessStudyDataAdapter,
 	ChessStudyFileData,
+	StorageVersionError,
+	getStudyTitle,
 } from 'src/lib/storage';
 import { ReactView } from './components/ReactView';
 import { ChessStringModal } from './components/obsidian/ChessStringModal';
+import { PgnExportModal } from './components/obsidian/PgnExportModal';
+import { PgnFileSuggestModal } from './components/obsidian/PgnFileSuggestModal';
+import { PgnImportModal } from './components/obsidian/PgnImportModal';
+import { ReviewModal } from './components/obsidian/ReviewModal';
 import {
 	ChessStudyPluginSettings,
 	DEFAULT_SETTINGS,
 	SettingsTab,
 } from './components/obsidian/SettingsTab';
+import { StudyCleanupModal } from './components/obsidian/StudyCleanupModal';
+import {
+	StudyManagerView,
+	VIEW_TYPE_STUDY_MANAGER,
+} from './components/obsidian/StudyManagerView';
+import { StudySearchModal } from './components/obsidian/StudySearchModal';
+import { GameActions } from './components/react/ChessStudy';
 
 // these styles must be imported somewhere
 import 'assets/board/green.css';
 import 'chessground/assets/chessground.base.css';
 import 'chessground/assets/chessground.brown.css';
 import 'chessground/assets/chessground.cburnett.css';
-import { nanoid } from 'nanoid';
-import { parseUserConfig } from './lib/obsidian';
+import { OpeningExplorerIndex } from './lib/explorer';
+import {
+	getChessStudyCodeBlock,
+	getChessStudySourceAtCursor,
+	getInlineChessString,
+	getInlineChessStudyCodeBlock,
+	parseUserConfig,
+	saveDiagram,
+	scanStudyReferences,
+} from './lib/obsidian';
+import {
+	ParsedPgn,
+	exportPgn,
+	getChapterWarnings,
+	parseChessString,
+	splitPgnGames,
+	toChapter,
+} from './lib/pgn';
+import { ReviewDatabase, toDateString } from './lib/review';
+import { StudyRegistry } from './lib/study-registry';
 import './main.css';
 
 type FEN = string;
@@ -36,6 +66,10 @@ export const ROOT_FEN =
 export default class ChessStudyPlugin extends Plugin {
 	settings: ChessStudyPluginSettings;
 	dataAdapter: ChessStudyDataAdapter;
+	openingExplorer = new OpeningExplorerIndex();
+	studyScanIntervalId: number | null = null;
+	studyRegistry = new StudyRegistry();
+	reviewDatabase: ReviewDatabase;
 	storagePath = normalizePath(
 		`${this.app.vault.configDir}/plugins/${this.manifest.id}/storage/`
 	);
@@ -52,9 +86,37 @@ export default class ChessStudyPlugin extends Plugin {
 
 		await this.dataAdapter.createStorageFolderIfNotExists();
 
+		this.reviewDatabase = new ReviewDatabase(
+			this.app.vault.adapter,
+			`${this.app.vault.configDir}/plugins/${this.manifest.id}/review.json`
+		);
+
+		// Keep the opening explorer in sync once it was built
+		this.register(
+			this.dataAdapter.onChange((id, data) => {
+				if (!this.openingExplorer.building) return;
+
+				if (data) {
+					this.openingExplorer.indexStudy(id, data);
+				} else {
+					this.openingExplorer.removeStudy(id);
+				}
+			})
+		);
+
 		// Add settings tab
 		this.addSettingTab(new SettingsTab(this.app, this));
 
+		// Register study manager view
+		this.registerView(
+			VIEW_TYPE_STUDY_MANAGER,
+			(leaf) => new StudyManagerView(leaf, this)
+		);
+
+		this.addRibbonIcon('library', 'Open chess study manager', () =>
+			this.activateStudyManagerView()
+		);
+
 		// Add command
 		this.addCommand({
 			id: 'insert-chess-study',
@@ -62,51 +124,278 @@ export default class ChessStudyPlugin extends Plugin {
 			editorCallback: (editor: Editor) => {
 				const cursorPosition = editor.getCursor();
 
-				const onSubmit = async (chessString: ChessString | undefined) => {
+				const onSubmit = async (chapters: ParsedPgn[]) => {
 					try {
-						const chessStringTrimmed = chessString?.trim() ?? '';
-
-						const isFen = chessStringTrimmed.includes('/');
-
-						const chess = isFen ? new Chess(chessStringTrimmed) : new Chess();
-
-						if (!isFen) {
-							//Try to parse the PGN
-							chess.loadPgn(chessStringTrimmed, {
-								strict: false,
-							});
-						}
-
 						const chessStudyFileData: ChessStudyFileData = {
 							version: CURRENT_STORAGE_VERSION,
-							header: {
-								title: chess.header()['opening'] || null,
-							},
-							moves: chess.history({ verbose: true }).map((move) => ({
-								...move,
-								moveId: nanoid(),
-								variants: [],
-								shapes: [],
-								comment: null,
-							})),
-							rootFEN: isFen ? chessStringTrimmed : ROOT_FEN,
+							chapters: chapters.map(toChapter),
 						};
 
+						const warnings = getChapterWarnings(chapters);
+
 						this.dataAdapter.createStorageFolderIfNotExists();
 
 						const id = await this.dataAdapter.saveFile(chessStudyFileData);
 
-						editor.replaceRange(
-							`\`\`\`chessStudy\nchessStudyId: ${id}\n\`\`\``,
-							cursorPosition
-						);
+						editor.replaceRange(getChessStudyCodeBlock(id), cursorPosition);
+
+						if (warnings.length) {
+							new Notice(
+								`Some parts of the PGN could not be imported:\n${warnings.join('\n')}`,
+								0
+							);
+						}
 					} catch (e) {
 						console.log(e);
-						new Notice('There was an error during PGN parsing.', 0);
+						new Notice(
+							`Something went wrong during creating the study: ${e.message}`,
+							0
+						);
+					}
+				};
+
+				new ChessStringModal(this.app, this.settings, onSubmit).open();
+			},
+		});
+
+		this.addCommand({
+			id: 'insert-inline-chess-study',
+			name: 'Insert inline FEN/PGN-Editor at cursor position',
+			editorCallback: (editor: Editor) => {
+				const cursorPosition = editor.getCursor();
+
+				// The game is kept in the code block instead of the plugin storage
+				const onSubmit = (chapters: ParsedPgn[]) => {
+					const pgn = exportPgn({
+						version: CURRENT_STORAGE_VERSION,
+						chapters: chapters.map(toChapter),
+					});
+
+					editor.replaceRange(getInlineChessStudyCodeBlock(pgn), cursorPosition);
+
+					const warnings = getChapterWarnings(chapters);
+
+					if (warnings.length) {
+						new Notice(
+							`Some parts of the PGN could not be imported:\n${warnings.join('\n')}`,
+							0
+						);
 					}
 				};
 
-				new ChessStringModal(this.app, onSubmit).open();
+				new ChessStringModal(this.app, this.settings, onSubmit).open();
+			},
+		});
+
+		this.addCommand({
+			id: 'import-pgn-file',
+			name: 'Import PGN file',
+			callback: () =>
+				new PgnFileSuggestModal(this.app, async (file) => {
+					try {
+						const games = splitPgnGames(await this.app.vault.read(file));
+
+						if (!games.length)
+							return new Notice(`${file.name} does not contain any games.`);
+
+						new PgnImportModal(this.app, this, file, games).open();
+					} catch (e) {
+						console.log(e);
+						new Notice(`There was an error while trying to read ${file.name}.`, 0);
+					}
+				}).open(),
+		});
+
+		this.addCommand({
+			id: 'export-chess-study-pgn',
+			name: 'Export chess study at cursor position as PGN',
+			editorCallback: async (editor: Editor, ctx) => {
+				const source = getChessStudySourceAtCursor(editor);
+
+				if (source === null)
+					return new Notice('Place the cursor inside a chessStudy code block.');
+
+				const config = parseUserConfig(this.settings, source);
+				const { chessStudyId } = config;
+				const inlineChessString = getInlineChessString(config);
+
+				if (inlineChessString !== null) {
+					try {
+						const chapters = parseChessString(inlineChessString).map(toChapter);
+
+						return new PgnExportModal(
+							this.app,
+							exportPgn({ version: CURRENT_STORAGE_VERSION, chapters }),
+							chapters[0].header.title || ctx.file?.basename || 'Inline study'
+						).open();
+					} catch (e) {
+						return new Notice(
+							`The PGN/FEN of the inline study could not be parsed: ${e.message}`,
+							0
+						);
+					}
+				}
+
+				try {
+					const data = await this.dataAdapter.loadFile(chessStudyId);
+
+					new PgnExportModal(
+						this.app,
+						exportPgn(data),
+						getStudyTitle(data) || chessStudyId
+					).open();
+				} catch (e) {
+					new Notice(
+						`There was an error while trying to load ${chessStudyId}.json.`,
+						0
+					);
+				}
+			},
+		});
+
+		this.addCommand({
+			id: 'insert-chess-diagram',
+			name: 'Insert diagram of the displayed position at cursor position',
+			editorCheckCallback: (checking, editor, ctx) => {
+				const study = this.getActiveStudy();
+				const sourcePath = ctx.file?.path;
+
+				if (!study || !sourcePath) return false;
+
+				if (checking) return true;
+
+				const cursorPosition = editor.getCursor();
+
+				saveDiagram(this.app, this.settings, study.getDiagram(), sourcePath)
+					.then((embed) => editor.replaceRange(embed, cursorPosition))
+					.catch((e) => {
+						console.log(e);
+						new Notice(
+							`Something went wrong during saving the diagram: ${e.message}`,
+							0
+						);
+					});
+			},
+		});
+
+		this.addCommand({
+			id: 'open-study-manager',
+			name: 'Open study manager',
+			callback: () => this.activateStudyManagerView(),
+		});
+
+		this.addCommand({
+			id: 'search-chess-studies',
+			name: 'Search studies for a position or move sequence',
+			callback: () => new StudySearchModal(this.app, this).open(),
+		});
+
+		this.addCommand({
+			id: 'review-due-lines',
+			name: 'Review due lines',
+			callback: async () => {
+				try {
+					const lines = await this.reviewDatabase.findDueLines(
+						this.dataAdapter,
+						toDateString(new Date())
+					);
+
+					if (!lines.length) return new Notice('No lines are due for review.');
+
+					new ReviewModal(this.app, this, lines).open();
+				} catch (e) {
+					console.log(e);
+					new Notice('There was an error while loading the review database.', 0);
+				}
+			},
+		});
+
+		this.addCommand({
+			id: 'clean-up-study-files',
+			name: 'Clean up orphaned and missing study files',
+			callback: () => new StudyCleanupModal(this.app, this).open(),
+		});
+
+		this.scheduleStudyScan();
+
+		// Commands must not act on a study in a leaf the user left
+		this.registerEvent(
+			this.app.workspace.on('active-leaf-change', (leaf) =>
+				this.studyRegistry.deactivateOutside(leaf?.view.containerEl ?? null)
+			)
+		);
+
+		// Add navigation commands for the study the user interacted with last
+		const navigationCommands: {
+			id: string;
+			name: string;
+			action: GameActions;
+		}[] = [
+			{
+				id: 'display-previous-move',
+				name: 'Go to previous move',
+				action: { type: 'DISPLAY_PREVIOUS_MOVE_IN_HISTORY' },
+			},
+			{
+				id: 'display-next-move',
+				name: 'Go to next move',
+				action: { type: 'DISPLAY_NEXT_MOVE_IN_HISTORY' },
+			},
+			{
+				id: 'display-previous-variation',
+				name: 'Go to previous variation',
+				action: { type: 'DISPLAY_SIBLING_MOVE', direction: -1 },
+			},
+			{
+				id: 'display-next-variation',
+				name: 'Go to next variation',
+				action: { type: 'DISPLAY_SIBLING_MOVE', direction: 1 },
+			},
+			{
+				id: 'display-root-position',
+				name: 'Go to starting position',
+				action: { type: 'DISPLAY_ROOT_POSITION' },
+			},
+			{
+				id: 'display-last-move',
+				name: 'Go to last move of the line',
+				action: { type: 'DISPLAY_LAST_MOVE_IN_LINE' },
+			},
+		];
+
+		navigationCommands.forEach(({ id, name, action }) =>
+			this.addCommand({
+				id,
+				name,
+				checkCallback: (checking: boolean) => {
+					const dispatch = this.getActiveStudy()?.dispatch;
+
+					if (!dispatch) return false;
+
+					if (!checking) dispatch(action);
+
+					return true;
+				},
+			})
+		);
+
+		this.addCommand({
+			id: 'migrate-all-chess-studies',
+			name: 'Migrate all stored studies to the current storage version',
+			callback: async () => {
+				const { migrated, upToDate, failed } =
+					await this.dataAdapter.migrateAllFiles();
+
+				const summary = `Migrated ${migrated} studies, ${upToDate} were already up to date.`;
+
+				if (!failed.length) return new Notice(summary);
+
+				new Notice(
+					`${summary}\nCould not migrate: ${failed
+						.map((id) => `${id}.json`)
+						.join(', ')}`,
+					0
+				);
 			},
 		});
 
@@ -114,23 +403,60 @@ export default class ChessStudyPlugin extends Plugin {
 		this.registerMarkdownCodeBlockProcessor(
 			'chessStudy',
 			async (source, el, ctx) => {
-				const { chessStudyId } = parseUserConfig(this.settings, source);
+				const config = parseUserConfig(this.settings, source);
+				const { chessStudyId } = config;
+				const inlineChessString = getInlineChessString(config);
+
+				const addReactView = (data: ChessStudyFileData) =>
+					ctx.addChild(
+						new ReactView(
+							el,
+							source,
+							ctx,
+							this.app,
+							this.settings,
+							data,
+							this.dataAdapter,
+							this.openingExplorer,
+							this.studyRegistry
+						)
+					);
+
+				// Inline studies are parsed from the code block on every render
+				if (inlineChessString !== null) {
+					try {
+						const chapters = parseChessString(inlineChessString);
+
+						return addReactView({
+							version: CURRENT_STORAGE_VERSION,
+							chapters: chapters.map(toChapter),
+						});
+					} catch (e) {
+						console.log(e);
+						return new Notice(
+							`The PGN/FEN of the inline study could not be parsed: ${e.message}`,
+							0
+						);
+					}
+				}
 
 				if (!chessStudyId.trim().length)
 					return new Notice(
-						"No chessStudyId parameter found, please add one manually if the file already exists or add it via the 'Insert PGN-Editor at cursor position' command.",
+						"No chessStudyId or pgn parameter found, please add one manually if the file already exists or add it via the 'Insert PGN-Editor at cursor position' command.",
 						0
 					);
 
 				try {
-					const data = await this.dataAdapter.loadFile(chessStudyId);
-
-					ctx.addChild(
-						new ReactView(el, source, this.app, this.settings, data, this.dataAdapter)
+					addReactView(
+						await this.dataAdapter.loadFile(chessStudyId, {
+							writeBack: this.settings.writeBackMigratedStudies,
+						})
 					);
 				} catch (e) {
+					if (e instanceof StorageVersionError) return new Notice(e.message, 0);
+
 					new Notice(
-						`There was an error while trying to load ${chessStudyId}.json. You can check the plugin folder if the file exist and if not add one via the 'Insert PGN-Editor at cursor position' command.`,
+						`There was an error while trying to load ${chessStudyId}.json. You can check the plugin folder if the file exist and if not add one via the 'Insert PGN-Editor at cursor position' command or recreate it via the 'Clean up orphaned and missing study files' command.`,
 						0
 					);
 				}
@@ -144,6 +470,59 @@ export default class ChessStudyPlugin extends Plugin {
 		console.log('Chess Study Plugin successfully unloaded');
 	}
 
+	/**
+	 * The study the user interacted with last, if it is part of the active leaf.
+	 */
+	getActiveStudy() {
+		const leafEl = this.app.workspace.activeLeaf?.view.containerEl ?? null;
+
+		return this.studyRegistry.getActiveStudy(leafEl);
+	}
+
+	scheduleStudyScan() {
+		if (this.studyScanIntervalId !== null) {
+			window.clearInterval(this.studyScanIntervalId);
+			this.studyScanIntervalId = null;
+		}
+
+		if (this.settings.studyScanInterval <= 0) return;
+
+		this.studyScanIntervalId = this.registerInterval(
+			window.setInterval(async () => {
+				try {
+					const { orphans, dangling } = await scanStudyReferences(
+						this.app,
+						this.dataAdapter
+					);
+
+					if (orphans.length || dangling.length) {
+						new Notice(
+							`Chess Study found ${orphans.length} orphaned and ${dangling.length} missing study files. Run the 'Clean up orphaned and missing study files' command to fix them.`
+						);
+					}
+				} catch (e) {
+					console.log(e);
+					// Not kept open, the scan fails again on every interval
+					new Notice(`Chess Study could not scan the study files: ${e.message}`);
+				}
+			}, this.settings.studyScanInterval * 60 * 1000)
+		);
+	}
+
+	async activateStudyManagerView() {
+		const { workspace } = this.app;
+
+		const [existingLeaf] = workspace.getLeavesOfType(VIEW_TYPE_STUDY_MANAGER);
+
+		if (existingLeaf) return workspace.revealLeaf(existingLeaf);
+
+		const leaf = workspace.getLeaf('tab');
+
+		await leaf.setViewState({ type: VIEW_TYPE_STUDY_MANAGER, active: true });
+
+		workspace.revealLeaf(leaf);
+	}
+
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
 	}